@@ -0,0 +1,134 @@
+import { EventEmitter, EventNameType, EventObject } from '../eventEmitter';
+import { matchEventName } from '../eventPattern';
+import { EventStoreLike } from '../eventStore';
+
+const LISTENERS_COUNT = 5000;
+const NAMES_COUNT = 500;
+const EMITS_COUNT = 5000;
+const SAME_NAME_LISTENERS_COUNT = 20000;
+
+/**
+ * Хранилище слушателей на одном массиве, как было до EventStore: все операции - линейный проход по массиву
+ */
+class LinearEventStore implements EventStoreLike {
+  private _events: EventObject<any, any>[] = [];
+
+  public get size() {
+    return this._events.length;
+  }
+
+  public add(eventObject: EventObject<any, any>, prepend?: boolean) {
+    const priority = eventObject.priority || 0;
+    const index = this._events.findIndex(m => (prepend ? (m.priority || 0) <= priority : (m.priority || 0) < priority));
+
+    if (index === -1) this._events.push(eventObject);
+    else this._events.splice(index, 0, eventObject);
+  }
+
+  public remove(eventHash: string) {
+    const eventObject = this.get(eventHash);
+    this._events = this._events.filter(m => m.eventHash !== eventHash);
+    return eventObject;
+  }
+
+  public clear() {
+    this._events = [];
+  }
+
+  public get(eventHash: string) {
+    return this._events.find(m => m.eventHash === eventHash);
+  }
+
+  public has(eventHash: string) {
+    return this._events.some(m => m.eventHash === eventHash);
+  }
+
+  public hasName(eventName: EventNameType) {
+    return this._events.some(m => m.eventName === eventName);
+  }
+
+  public getNames() {
+    return Array.from(new Set(this._events.map(m => m.eventName)));
+  }
+
+  public getByName(eventName: EventNameType) {
+    return this._events.filter(m => m.eventName === eventName);
+  }
+
+  public match(eventName: EventNameType) {
+    return this._events.filter(m => matchEventName(m.eventName, eventName));
+  }
+
+  public cover(pattern: EventNameType) {
+    return this._events.filter(m => matchEventName(pattern, m.eventName));
+  }
+
+  public hasCover(pattern: EventNameType) {
+    return this._events.some(m => matchEventName(pattern, m.eventName));
+  }
+
+  public some(predicate: (eventObject: EventObject<any, any>) => boolean) {
+    return this._events.some(predicate);
+  }
+
+  public values() {
+    return [...this._events];
+  }
+}
+
+class LinearEventEmitter extends EventEmitter<any> {
+  protected _eventStore: EventStoreLike = new LinearEventStore();
+  protected _offTriggerStore: EventStoreLike = new LinearEventStore();
+  protected _offEventTriggerStore: EventStoreLike = new LinearEventStore();
+}
+
+function measure(emitter: EventEmitter<any>) {
+  const start = Date.now();
+  const hashes: string[] = [];
+
+  for (let i = 0; i < LISTENERS_COUNT; i++) {
+    hashes.push(emitter.on(`event.${i % NAMES_COUNT}`, () => null, { priority: i % 3 }));
+  }
+  emitter.on('event.*', () => null);
+  for (let i = 0; i < EMITS_COUNT; i++) {
+    emitter.emitSync(`event.${i % NAMES_COUNT}`, i);
+    emitter.has(hashes[i % LISTENERS_COUNT]);
+  }
+  hashes.forEach(hash => emitter.off(hash));
+
+  return Date.now() - start;
+}
+
+/**
+ * Много слушателей одного события: добавление в конец списка и вставка по приоритету
+ */
+function measureSameName(emitter: EventEmitter<any>) {
+  const start = Date.now();
+  const hashes: string[] = [];
+
+  for (let i = 0; i < SAME_NAME_LISTENERS_COUNT; i++) {
+    hashes.push(emitter.on('event', () => null, { priority: i % 3 }));
+  }
+  emitter.emitSync('event', 0);
+  hashes.forEach(hash => emitter.off(hash));
+
+  return Date.now() - start;
+}
+
+describe('benchmark', () => {
+  test('indexed storage is faster than linear storage', () => {
+    const linearTime = measure(new LinearEventEmitter());
+    const indexedTime = measure(new EventEmitter<any>());
+
+    console.log(`linear: ${linearTime}ms, indexed: ${indexedTime}ms`);
+    expect(indexedTime).toBeLessThan(linearTime);
+  });
+
+  test('indexed storage is faster than linear storage for listeners of one event', () => {
+    const linearTime = measureSameName(new LinearEventEmitter());
+    const indexedTime = measureSameName(new EventEmitter<any>());
+
+    console.log(`same name linear: ${linearTime}ms, indexed: ${indexedTime}ms`);
+    expect(indexedTime).toBeLessThan(linearTime);
+  });
+});
@@ -1,5 +1,15 @@
 import { EventEmitter } from '../eventEmitter';
 import { CacheEmitter } from '../cacheEmitter';
+import { createConcurrencyQueue, serializeCacheKey } from '../cacheWrap';
+import { EmitterAggregateError, ListenerError } from '../errors';
+import { BridgeChannel, jsonSerializer, toBridgeChannel } from '../eventBridge';
+import { InspectorRecord, MaxListenersExceededWarning } from '../eventInspector';
+import { NoRequestHandlerError, RequestHandlerExistsError, RequestTimeoutError } from '../eventRequest';
+import { WaitTimeoutError } from '../eventWait';
+import { FileStateAdapter, MemoryStateAdapter, StateSnapshot, StateSnapshotVersionError } from '../statePersistence';
+import { observableSymbol, Observer, Subscribable } from '../eventObservable';
+import { asyncDisposeSymbol, disposeSymbol, SubscriptionScope } from '../subscription';
+import { AsyncSubscribeMiddlewareError } from '../middleware';
 
 class TestEmitter<EventMap extends { [eventName: string]: any }> extends EventEmitter<EventMap> {
   static createTestEmitter<EventMap extends { [eventName: string]: any }>() {
@@ -172,6 +182,21 @@ describe('test emitter', () => {
     expect(emitter.createNewEmitter(data => data.filter(m => m.eventName === 'test1')).testEvents.length).toBe(2);
     expect(emitter.createNewEmitter(data => data.filter(m => m.callback === testCallback)).testEvents.length).toBe(2);
 
+    const source = TestEmitter.createTestEmitter<{ test1: number }>();
+    const calls: string[] = [];
+    const onceHash = source.once('test1', data => void calls.push(`once:${data}`));
+    source.on('test1', data => void calls.push(`debounce:${data}`), { debounce: 10 });
+    source.on('test1', () => {}, { owner: {} });
+
+    const copy = source.createNewEmitter();
+    expect(copy.testEvents.length).toBe(2);
+    copy.emitSync('test1', 1);
+    expect(copy.has(onceHash)).toBeFalsy();
+    expect(source.has(onceHash)).toBeTruthy();
+    source.offAll();
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(calls).toEqual(['once:1', 'debounce:1']);
+
     done();
   });
 
@@ -356,6 +381,1578 @@ describe('test emitter', () => {
     expect(test4Data).toBe('timeout');
     expect(test5Data).toBeTruthy();
 
+    done();
+  });
+  test('wildcard events', async done => {
+    type UserEventMap = { 'user.created': { id: number }; 'user.deleted': { id: number; soft: boolean }; 'post.deleted': string };
+    const emitter = TestEmitter.createTestEmitter<UserEventMap>();
+    const userEvents: string[] = [];
+    const deletedEvents: string[] = [];
+    const allEvents: string[] = [];
+    let offUserCalled = 0;
+
+    emitter.on('user.*', (data, eventHash, eventName) => {
+      userEvents.push(`${eventName}:${data.id}`);
+    });
+    emitter.on('*.deleted', (data, eventHash, eventName) => {
+      deletedEvents.push(eventName);
+    });
+    emitter.on('**', (data, eventHash, eventName) => {
+      allEvents.push(eventName);
+    });
+    emitter.on('user.created', () => {});
+    emitter.triggerOffEvent('user.*', () => (offUserCalled += 1));
+
+    emitter.emitSync('user.created', { id: 1 });
+    emitter.emitSync('user.deleted', { id: 2, soft: false });
+    await emitter.emitAsync('post.deleted', 'post');
+
+    expect(userEvents).toEqual(['user.created:1', 'user.deleted:2']);
+    expect(deletedEvents).toEqual(['user.deleted', 'post.deleted']);
+    expect(allEvents).toEqual(['user.created', 'user.deleted', 'post.deleted']);
+
+    setTimeout(() => emitter.emitSync('user.deleted', { id: 3, soft: true }), 10);
+    const waitData = await emitter.waitEvent('user.*');
+    expect(waitData.id).toBe(3);
+
+    expect(emitter.hasEvent('user.*')).toBeTruthy();
+    emitter.offEvent('user.*');
+    expect(emitter.hasEvent('user.*')).toBeFalsy();
+    expect(emitter.hasEvent('user.created')).toBeFalsy();
+    expect(emitter.testEvents.map(m => m.eventName)).toEqual(['*.deleted', '**']);
+    expect(offUserCalled).toBe(2);
+
+    let offAnyCalled = 0;
+    emitter.triggerOffEvent('**', () => (offAnyCalled += 1));
+    emitter.off('no-such-hash');
+    expect(offAnyCalled).toBe(0);
+    expect(emitter.testEvents.map(m => m.eventName)).toEqual(['*.deleted', '**']);
+
+    done();
+  });
+  test('priority & propagation', async done => {
+    const emitter = TestEmitter.createTestEmitter<{ 'before.save': { title: string } }>();
+    const calls: string[] = [];
+
+    emitter.on('before.save', () => void calls.push('default'));
+    emitter.on('before.save', () => void calls.push('high'), { priority: 10 });
+    emitter.on('before.save', () => void calls.push('low'), { priority: -10 });
+    emitter.on('before.save', () => void calls.push('first'), { priority: 10, prepend: true });
+    emitter.on('before.save', () => void calls.push('prepend'), { prepend: true });
+
+    expect(emitter.emitSync('before.save', { title: 'test' })).toBe(false);
+    expect(calls).toEqual(['first', 'high', 'prepend', 'default', 'low']);
+
+    calls.length = 0;
+    emitter.on(
+      'before.save',
+      (data, eventHash, eventName, context) => {
+        calls.push('validate');
+        if (!data.title) {
+          context.preventDefault();
+          context.stopPropagation();
+        }
+      },
+      { priority: 100 },
+    );
+
+    expect(emitter.emitSync('before.save', { title: '' })).toBe(true);
+    expect(calls).toEqual(['validate']);
+
+    calls.length = 0;
+    expect(await emitter.emitAsync('before.save', { title: '' })).toBe(true);
+    expect(calls).toEqual(['validate']);
+
+    calls.length = 0;
+    expect(await emitter.emitAsync('before.save', { title: 'test' })).toBe(false);
+    expect(calls.length).toBe(6);
+
+    done();
+  });
+  test('middleware', async done => {
+    const emitter = TestEmitter.createTestEmitter();
+    const log: string[] = [];
+    const received: any[] = [];
+
+    emitter.use(async (context, next) => {
+      log.push(`before ${String(context.eventName)}`);
+      await next();
+      log.push(`after ${String(context.eventName)}`);
+    });
+    emitter.use((context, next) => {
+      if (context.eventName === 'drop') return;
+      if (context.eventName === 'transform') context.data = context.data * 2;
+      return next();
+    });
+    const delay = async (context, next) => {
+      await new Promise(resolve => setTimeout(resolve, 50));
+      await next();
+    };
+    emitter.use(delay);
+
+    emitter.on('transform', data => void received.push(data));
+    emitter.on('drop', data => void received.push(data));
+
+    await emitter.emitAsync('transform', 2);
+    await emitter.emitAsync('drop', 1);
+    expect(log).toEqual(['before transform', 'after transform', 'before drop', 'after drop']);
+
+    emitter.emitStateSync('drop', 1);
+    expect(received).toEqual([4]);
+    expect(emitter.hasState('drop')).toBeFalsy();
+
+    emitter.unuse(delay);
+    emitter.emitStateSync('transform', 3);
+    expect(received).toEqual([4, 6]);
+    expect(emitter.getState('transform')).toBe(6);
+
+    emitter.offAll();
+
+    const actions: string[] = [];
+    emitter.useSubscribe((context, next) => {
+      actions.push(`${context.action} ${String(context.eventObject.eventName)}`);
+      if (context.eventObject.eventName === 'private') return;
+      if (context.action === 'off' && context.eventObject.eventName === 'pinned') return;
+      next();
+    });
+
+    emitter.on('private', () => {});
+    emitter.on('pinned', () => {});
+    const publicHash = emitter.on('public', () => {});
+    expect(emitter.testEvents.map(m => m.eventName)).toEqual(['pinned', 'public']);
+
+    emitter.off(publicHash);
+    emitter.offAll();
+    expect(emitter.testEvents.map(m => m.eventName)).toEqual(['pinned']);
+    expect(actions).toEqual(['on private', 'on pinned', 'on public', 'off public', 'off pinned']);
+
+    const deferredEmitter = TestEmitter.createTestEmitter<{ test1: number }>();
+    deferredEmitter.useSubscribe(async (context, next) => {
+      if (context.eventObject.eventName === 'test1') return next();
+      await Promise.resolve();
+      next();
+    });
+    expect(() => deferredEmitter.on('test1', () => {})).not.toThrow();
+    expect(() => deferredEmitter.on('other' as any, () => {})).toThrow(AsyncSubscribeMiddlewareError);
+    expect(deferredEmitter.testEvents.map(m => m.eventName)).toEqual(['test1']);
+
+    const errors: ListenerError[] = [];
+    const asyncEmitter = TestEmitter.createTestEmitter<{ fail: number; late: number }>();
+    asyncEmitter.onError(error => void errors.push(error));
+    asyncEmitter.use(async (context, next) => {
+      await new Promise(resolve => setTimeout(resolve, 10));
+      await next();
+      if (context.eventName === 'late') throw new Error('middleware');
+    });
+    asyncEmitter.on('fail', () => {
+      throw new Error('listener');
+    });
+    asyncEmitter.on('late', () => {});
+
+    expect(() => asyncEmitter.emitSync('fail', 1)).not.toThrow();
+    expect(() => asyncEmitter.emitSync('late', 1)).not.toThrow();
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(errors.map(error => [error.error.message, error.eventHash === null])).toEqual([
+      ['listener', false],
+      ['middleware', true],
+    ]);
+    expect(errors[1].message).toBe('Middleware of "late" failed: middleware');
+
+    done();
+  });
+  test('cacheEmitter ttl & invalidate', async done => {
+    const emitter = new CacheEmitter({ maxEntries: 2 });
+    const counts: { [key: string]: number } = {};
+    const request = (key: string) => async () => {
+      counts[key] = (counts[key] || 0) + 1;
+      return `${key}${counts[key]}`;
+    };
+
+    expect(await emitter.call('query1', request('query1'), { ttl: 100, tags: ['users'] })).toBe('query11');
+    expect(await emitter.call('query1', request('query1'), { ttl: 100, tags: ['users'] })).toBe('query11');
+    expect(await emitter.call('nottl', request('nottl'))).toBe('nottl1');
+    expect(await emitter.call('nottl', request('nottl'))).toBe('nottl2');
+
+    await new Promise(resolve => setTimeout(resolve, 150));
+    expect(await emitter.call('query1', request('query1'), { ttl: 100 })).toBe('query12');
+
+    expect(await emitter.call('query2', request('query2'), { ttl: 50, staleWhileRevalidate: 500 })).toBe('query21');
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(await emitter.call('query2', request('query2'), { ttl: 50, staleWhileRevalidate: 500 })).toBe('query21');
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(await emitter.call('query2', request('query2'), { ttl: 50, staleWhileRevalidate: 500 })).toBe('query22');
+
+    emitter.clear();
+    expect(await emitter.call('query1', request('query1'), { ttl: 1000 })).toBe('query13');
+    expect(await emitter.call('query3', request('query3'), { ttl: 1000 })).toBe('query31');
+    expect(await emitter.call('query1', request('query1'), { ttl: 1000 })).toBe('query13');
+    expect(await emitter.call('query2', request('query2'), { ttl: 1000 })).toBe('query23');
+    expect(await emitter.call('query1', request('query1'), { ttl: 1000 })).toBe('query13');
+    expect(await emitter.call('query3', request('query3'), { ttl: 1000 })).toBe('query32');
+
+    await emitter.call('query4', request('query4'), { ttl: 1000, tags: ['users'] });
+    emitter.invalidateByTag('users');
+    expect(await emitter.call('query4', request('query4'), { ttl: 1000 })).toBe('query42');
+
+    emitter.invalidate('query4');
+    expect(await emitter.call('query4', request('query4'), { ttl: 1000 })).toBe('query43');
+
+    emitter.clear();
+    expect(await emitter.call('query3', request('query3'), { ttl: 1000 })).toBe('query33');
+
+    done();
+  });
+  test('cacheEmitter errors & abort', async done => {
+    const emitter = TestCacheEmitter.createTestEmitter();
+    let count = 0;
+    const failCallback = async () => {
+      count += 1;
+      await new Promise(resolve => setTimeout(resolve, 50));
+      throw new Error(`fail${count}`);
+    };
+
+    const errors = await Promise.all([
+      emitter.call('query1', failCallback).catch(err => err.message),
+      emitter.call('query1', failCallback).catch(err => err.message),
+    ]);
+    expect(errors).toEqual(['fail1', 'fail1']);
+
+    count = 0;
+    const retryCallback = async () => {
+      count += 1;
+      if (count < 3) throw new Error('retry');
+      return 'test';
+    };
+    expect(await emitter.call('query2', retryCallback, { retry: { count: 2, delay: 10, factor: 2 } })).toBe('test');
+    expect(count).toBe(3);
+
+    let realSignal: AbortSignal = null;
+    const slowCallback = async (signal: AbortSignal) => {
+      realSignal = signal;
+      await new Promise(resolve => setTimeout(resolve, 100));
+      return 'slow';
+    };
+    const controller1 = new AbortController();
+    const controller2 = new AbortController();
+    const call1 = emitter.call('query3', slowCallback, { signal: controller1.signal }).catch(err => err.name);
+    const call2 = emitter.call('query3', slowCallback, { signal: controller2.signal }).catch(err => err.name);
+    const call3 = emitter.call('query3', slowCallback);
+
+    controller1.abort();
+    expect(await call1).toBe('AbortError');
+    expect(await Promise.all([call2, call3])).toEqual(['slow', 'slow']);
+    expect(realSignal.aborted).toBeFalsy();
+
+    const call4 = emitter.call('query4', slowCallback, { signal: controller1.signal }).catch(err => err.name);
+    expect(await call4).toBe('AbortError');
+
+    const controller3 = new AbortController();
+    const call5 = emitter.call('query5', slowCallback, { signal: controller3.signal }).catch(err => err.name);
+    await new Promise(resolve => setTimeout(resolve, 10));
+    controller3.abort();
+    expect(await call5).toBe('AbortError');
+    expect(realSignal.aborted).toBeTruthy();
+    expect(emitter.testEvents.length).toBe(0);
+
+    count = 0;
+    const controller4 = new AbortController();
+    const backoffCallback = async (signal: AbortSignal) => {
+      realSignal = signal;
+      count += 1;
+      throw new Error('retry');
+    };
+    const call6 = emitter.call('query6', backoffCallback, { retry: { count: 2, delay: 50 }, signal: controller4.signal }).catch(err => err.name);
+    await new Promise(resolve => setTimeout(resolve, 10));
+    controller4.abort();
+    expect(await call6).toBe('AbortError');
+    await new Promise(resolve => setTimeout(resolve, 60));
+    expect(count).toBe(1);
+    expect(realSignal.aborted).toBeTruthy();
+
+    const patternSignals: AbortSignal[] = [];
+    const wildcardCall = emitter.call('user.*', async (signal: AbortSignal) => {
+      patternSignals.push(signal);
+      await new Promise(resolve => setTimeout(resolve, 30));
+      return 'ALL';
+    });
+    const exactCall = emitter.call('user.1', async () => 'ONE');
+    expect(await Promise.all([wildcardCall, exactCall])).toEqual(['ALL', 'ONE']);
+
+    const controller5 = new AbortController();
+    const abortedWildcard = emitter
+      .call(
+        'user.*',
+        async (signal: AbortSignal) => {
+          patternSignals.push(signal);
+          return slowCallback(signal);
+        },
+        { signal: controller5.signal },
+      )
+      .catch(err => err.name);
+    const pendingExact = emitter.call('user.2', slowCallback);
+    controller5.abort();
+    expect(await abortedWildcard).toBe('AbortError');
+    expect(patternSignals[1].aborted).toBe(true);
+    expect(realSignal.aborted).toBe(false);
+    expect(await pendingExact).toBe('slow');
+
+    const wildcardValues: string[] = [];
+    emitter.subscribe<string>(
+      'quote.*',
+      () => () => undefined,
+      data => void wildcardValues.push(data),
+    );
+    const quoteHash = emitter.subscribe<string>(
+      'quote.1',
+      callback => {
+        callback('q1');
+        return () => undefined;
+      },
+      () => {},
+    );
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(wildcardValues).toEqual([]);
+    emitter.unsubscribe(quoteHash);
+
+    done();
+  });
+  test('emitCollect & emitSerial & emitWaterfall & emitFirst', async done => {
+    const emitter = TestEmitter.createTestEmitter<{ hook: number; resolve: string }>();
+    const calls: string[] = [];
+
+    emitter.on('hook', async data => {
+      await new Promise(resolve => setTimeout(resolve, 50));
+      calls.push('slow');
+      return data + 1;
+    });
+    emitter.on('hook', data => {
+      calls.push('fast');
+      return data * 10;
+    });
+
+    const collected = await emitter.emitCollect<'hook', number>('hook', 1);
+    expect(collected).toEqual([2, 10]);
+    expect(calls).toEqual(['fast', 'slow']);
+
+    calls.length = 0;
+    const serial = await emitter.emitSerial<'hook', number>('hook', 1);
+    expect(serial).toEqual([2, 10]);
+    expect(calls).toEqual(['slow', 'fast']);
+
+    const waterfall = await emitter.emitWaterfall('hook', 1);
+    expect(waterfall).toBe(20);
+
+    emitter.on('resolve', () => undefined);
+    emitter.on('resolve', data => `${data} first`);
+    emitter.on('resolve', data => `${data} second`);
+    expect(await emitter.emitFirst<'resolve', string>('resolve', 'test')).toBe('test first');
+    expect(await emitter.emitFirst('unknown', 'test')).toBeUndefined();
+    expect(await emitter.emitCollect('unknown', 'test')).toEqual([]);
+
+    done();
+  });
+  test('iterate', async done => {
+    const emitter = TestEmitter.createTestEmitter<{ progress: number }>();
+    const values: number[] = [];
+
+    emitter.emitStateSync('progress', 0);
+    setTimeout(() => [1, 2, 3, 4].forEach(value => emitter.emitSync('progress', value)), 10);
+
+    const iterator = emitter.iterate('progress');
+    for (let result = await iterator.next(); !result.done; result = await iterator.next()) {
+      values.push(result.value);
+      if (result.value >= 2) await iterator.return();
+    }
+
+    expect(values).toEqual([0, 1, 2]);
+    expect(emitter.testEvents.length).toBe(0);
+    emitter.removeState('progress');
+
+    const dropOldest = emitter.iterate('progress', { highWaterMark: 2 });
+    [5, 6, 7].forEach(value => emitter.emitSync('progress', value));
+    expect((await dropOldest.next()).value).toBe(6);
+    expect((await dropOldest.next()).value).toBe(7);
+    await dropOldest.return();
+
+    const dropNewest = emitter.iterate('progress', { highWaterMark: 2, overflow: 'drop-newest' });
+    [8, 9, 10].forEach(value => emitter.emitSync('progress', value));
+    expect((await dropNewest.next()).value).toBe(8);
+    expect((await dropNewest.next()).value).toBe(9);
+    await dropNewest.return();
+
+    const withError = emitter.iterate('progress', { highWaterMark: 1, overflow: 'error' });
+    [11, 12].forEach(value => emitter.emitSync('progress', value));
+    expect((await withError.next()).value).toBe(11);
+    expect(await withError.next().catch(err => err.name)).toBe('EventIteratorOverflowError');
+    expect((await withError.next()).done).toBeTruthy();
+    expect(emitter.testEvents.length).toBe(0);
+
+    const external = emitter.iterate('progress');
+    const nextValues = [external.next(), external.next()];
+    emitter.emitSync('progress', 13);
+    emitter.offAll();
+    expect((await nextValues[0]).value).toBe(13);
+    expect((await nextValues[1]).done).toBeTruthy();
+
+    done();
+  });
+  test('observe & fromObservable', async done => {
+    const emitter = TestEmitter.createTestEmitter<{ count: number; source: string }>();
+    const values: number[] = [];
+    let completed = false;
+
+    emitter.emitStateSync('count', 1);
+    const observable = emitter.observe('count');
+    expect(observable[observableSymbol]()).toBe(observable);
+    // Та же проверка типов, что у from в RxJS 7
+    type InteropObservable<Data> = { [Symbol.observable]: () => Subscribable<Data> };
+    type ObservedValueOf<Input> = Input extends InteropObservable<infer Data> ? Data : never;
+    const interop: InteropObservable<number> = observable;
+    const isNumber: [ObservedValueOf<typeof observable>] extends [number] ? ([number] extends [ObservedValueOf<typeof observable>] ? true : false) : false =
+      true;
+    expect(interop).toBe(observable);
+    expect(isNumber).toBe(true);
+
+    const subscription = observable.subscribe({ next: value => void values.push(value), complete: () => (completed = true) });
+    emitter.emitSync('count', 2);
+    subscription.unsubscribe();
+    emitter.emitSync('count', 3);
+
+    expect(values).toEqual([1, 2]);
+    expect(subscription.closed).toBeTruthy();
+    expect(completed).toBeFalsy();
+    expect(emitter.testEvents.length).toBe(0);
+
+    const nextSubscription = observable.subscribe(
+      value => void values.push(value),
+      null,
+      () => (completed = true),
+    );
+    emitter.offEvent('count');
+    expect(completed).toBeTruthy();
+    expect(nextSubscription.closed).toBeTruthy();
+
+    let sourceObserver: Partial<Observer<string>> = null;
+    const source = {
+      subscribe: (observer: Partial<Observer<string>>) => {
+        sourceObserver = observer;
+        return { unsubscribe: () => (sourceObserver = null) };
+      },
+    };
+    const received: string[] = [];
+    emitter.on('source', data => void received.push(data));
+    const sourceSubscription = emitter.fromObservable('source', { [observableSymbol]: () => source } as any);
+    sourceObserver.next('a');
+    sourceObserver.next('b');
+    await new Promise(resolve => setTimeout(resolve, 10));
+    sourceSubscription.unsubscribe();
+
+    expect(received).toEqual(['a', 'b']);
+    expect(sourceObserver).toBeNull();
+
+    const errors: ListenerError[] = [];
+    emitter.onError(error => void errors.push(error));
+    emitter.on('source', data => {
+      if (data === 'fail') throw new Error('listener');
+    });
+    emitter.use((context, next) => {
+      if (context.data === 'drop') throw new Error('middleware');
+      return next();
+    });
+    emitter.fromObservable('source', source);
+    sourceObserver.next('fail');
+    sourceObserver.next('drop');
+    sourceObserver.error(new Error('source'));
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(sourceObserver).toBeNull();
+    expect(errors.map(error => [error.error.message, error.eventHash === null])).toEqual([
+      ['listener', false],
+      ['middleware', true],
+      ['source', true],
+    ]);
+
+    emitter.fromObservable('source', source);
+    sourceObserver.complete();
+    expect(sourceObserver).toBeNull();
+
+    done();
+  });
+  test('error policy', async done => {
+    const emitter = TestEmitter.createTestEmitter();
+    const calls: string[] = [];
+    const reported: ListenerError[] = [];
+
+    const failHash = emitter.on('test1', () => {
+      throw new Error('sync');
+    });
+    emitter.on('test1', async () => {
+      throw new Error('async');
+    });
+    emitter.on('test1', () => void calls.push('last'));
+    emitter.triggerOff(failHash, () => {
+      throw new Error('off');
+    });
+    emitter.onError(error => void reported.push(error));
+
+    expect(() => emitter.emitSync('test1', true)).toThrow('sync');
+    expect(calls).toEqual([]);
+
+    emitter.errorPolicy = 'isolate';
+    emitter.emitSync('test1', true);
+    expect(calls).toEqual(['last']);
+    await emitter.emitAsync('test1', true);
+    expect(calls).toEqual(['last', 'last']);
+    expect(reported.map(m => m.error.message).sort()).toEqual(['async', 'async', 'sync', 'sync', 'sync']);
+    expect(reported[1].eventName).toBe('test1');
+    expect(reported[1].eventHash).toBe(failHash);
+    expect(reported[1].phase).toBe('emit');
+
+    emitter.errorPolicy = 'aggregate';
+    const aggregateError: EmitterAggregateError = await emitter.emitAsync('test1', true).catch(err => err);
+    expect(aggregateError).toBeInstanceOf(EmitterAggregateError);
+    expect(aggregateError.errors.map(m => m.error.message)).toEqual(['sync', 'async']);
+    expect(calls).toEqual(['last', 'last', 'last']);
+
+    reported.length = 0;
+    expect(() => emitter.off(failHash)).toThrow(EmitterAggregateError);
+    expect(emitter.has(failHash)).toBeFalsy();
+    expect(reported.map(m => [m.error.message, m.phase])).toEqual([['off', 'off']]);
+
+    emitter.errorPolicy = 'throw';
+    reported.length = 0;
+    const offHash = emitter.on('test1', () => {});
+    emitter.triggerOff(offHash, () => {
+      throw new Error('off');
+    });
+    emitter.triggerOffAll(() => {
+      throw new Error('offAll');
+    });
+    expect(() => emitter.off(offHash)).not.toThrow();
+    expect(() => emitter.offAll()).not.toThrow();
+    expect(emitter.has(offHash)).toBeFalsy();
+    expect(reported.map(m => [m.error.message, m.phase])).toEqual([
+      ['off', 'off'],
+      ['offAll', 'off'],
+    ]);
+
+    done();
+  });
+
+  test('modifying listeners during emit', async done => {
+    const emitter = TestEmitter.createTestEmitter<{ test1: number }>();
+    const calls: string[] = [];
+    let secondHash: string = null;
+
+    emitter.on('test1', () => {
+      calls.push('first');
+      emitter.off(secondHash);
+      emitter.on('test1', () => void calls.push('added'));
+    });
+    secondHash = emitter.on('test1', () => void calls.push('second'));
+    emitter.on('test1', () => void calls.push('third'));
+
+    emitter.emitSync('test1', 1);
+    expect(calls).toEqual(['first', 'third']);
+    expect(emitter.testEvents.length).toBe(3);
+
+    calls.length = 0;
+    const selfHash = emitter.on('test1', () => {
+      calls.push('self');
+      emitter.off(selfHash);
+    });
+    await emitter.emitSerial('test1', 2);
+    expect(calls).toEqual(['first', 'third', 'added', 'self']);
+    expect(emitter.has(selfHash)).toBeFalsy();
+
+    emitter.offAll();
+    expect(emitter.testEvents).toEqual([]);
+
+    done();
+  });
+
+  test('state history', async done => {
+    const emitter = new EventEmitter<{}, { count: number; name: string }>({ stateHistory: { size: 3 } });
+    const calls: [number, number][] = [];
+
+    [1, 2, 3, 4].forEach(count => emitter.emitStateSync('count', count));
+    expect(emitter.getState('count')).toBe(4);
+    expect(emitter.getStateHistory('count').map(m => m.data)).toEqual([2, 3, 4]);
+    expect(emitter.getStateHistory('count').map(m => m.version)).toEqual([2, 3, 4]);
+
+    emitter.onState('count', (data, eventHash, eventName, context) => void calls.push([data, context.version]), { replay: 2 });
+    expect(calls).toEqual([
+      [3, 3],
+      [4, 4],
+    ]);
+
+    calls.length = 0;
+    emitter.onState('count', data => void calls.push([data, null]), { replay: 10, sinceVersion: 2 });
+    expect(calls).toEqual([
+      [3, null],
+      [4, null],
+    ]);
+
+    calls.length = 0;
+    emitter.emitStateSync('name', 'test');
+    emitter.emitStateSync('count', 5);
+    expect(calls).toEqual([
+      [5, 6],
+      [5, null],
+    ]);
+
+    const replayed: number[] = [];
+    emitter.on('count', data => void replayed.push(data));
+    emitter.onState('count', data => void replayed.push(data), { replay: 0 });
+    expect(replayed).toEqual([5]);
+
+    emitter.setStateHistory('name', { size: 10, time: 50 });
+    emitter.emitStateSync('name', 'test2');
+    expect(emitter.getStateHistory('name').map(m => m.data)).toEqual(['test', 'test2']);
+    await new Promise(resolve => setTimeout(resolve, 100));
+    emitter.emitStateSync('name', 'test3');
+    expect(emitter.getStateHistory('name').map(m => m.data)).toEqual(['test3']);
+
+    emitter.removeState('count');
+    expect(emitter.getStateHistory('count')).toEqual([]);
+
+    done();
+  });
+
+  test('computeState', async done => {
+    const emitter = new EventEmitter<{}, { a: number; b: number; sum: number; sumAsync: number; parity: { even: boolean } }>();
+    const sums: number[] = [];
+    const parities: boolean[] = [];
+
+    emitter.emitStateSync('a', 1);
+    const sumHash = emitter.computeState('sum', ['a', 'b'], (a, b) => (a || 0) + (b || 0));
+    expect(emitter.getState('sum')).toBe(1);
+
+    emitter.on('sum', sum => void sums.push(sum));
+    emitter.emitStateSync('b', 2);
+    emitter.emitStateSync('a', 3);
+    emitter.emitStateSync('b', 0);
+    expect(sums).toEqual([1, 3, 5, 3]);
+
+    emitter.emitStateSync('a', 1);
+    emitter.emitStateSync('b', 2);
+    expect(sums).toEqual([1, 3, 5, 3, 1, 3]);
+
+    emitter.computeState('parity', ['sum'], sum => ({ even: sum % 2 === 0 }), { comparer: (previous, next) => previous.even === next.even });
+    emitter.on('parity', parity => void parities.push(parity.even));
+    emitter.emitStateSync('a', 3);
+    emitter.emitStateSync('a', 5);
+    emitter.emitStateSync('a', 2);
+    emitter.emitStateSync('a', 3);
+    expect(parities).toEqual([false, true, false]);
+
+    emitter.offComputeState(sumHash);
+    emitter.emitStateSync('a', 10);
+    expect(emitter.getState('sum')).toBe(5);
+
+    const delays = [50, 10];
+    emitter.computeState('sumAsync', ['a', 'b'], (a, b) => new Promise<number>(resolve => setTimeout(() => resolve(a + b), delays.shift() || 0)));
+    emitter.emitStateSync('b', 5);
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(emitter.getState('sumAsync')).toBe(15);
+    expect(emitter.getStateHistory('sumAsync').length).toBe(1);
+
+    const errors: ListenerError[] = [];
+    const failing = new EventEmitter<{}, { a: number; result: number }>();
+    failing.onError(error => void errors.push(error));
+    const failHash = failing.computeState('result', ['a'], a => (a > 1 ? Promise.reject(new Error(`fail ${a}`)) : Promise.resolve(a)));
+    failing.emitStateSync('a', 1);
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(() => failing.emitStateSync('a', 2)).not.toThrow();
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(failing.getState('result')).toBe(1);
+    expect(errors.map(error => [error.error.message, error.eventName, error.eventHash])).toEqual([['fail 2', 'result', failHash]]);
+
+    failing.emitStateSync('a', 3);
+    failing.computeState('result', ['a'], () => Promise.reject(new Error('initial')));
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(errors.map(error => error.error.message)).toEqual(['fail 2', 'fail 3', 'initial']);
+
+    done();
+  });
+
+  test('waitFor & waitAny & waitAll', async done => {
+    const emitter = TestEmitter.createTestEmitter<{ test1: number; test2: string; test3: boolean }>();
+
+    setTimeout(() => [1, 2, 3].forEach(data => emitter.emitSync('test1', data)), 10);
+    expect(await emitter.waitFor('test1', { filter: data => data > 1 })).toBe(2);
+    expect(emitter.testEvents).toEqual([]);
+
+    const timeoutError = await emitter.waitFor('test2', { timeout: 10 }).catch(err => err);
+    expect(timeoutError).toBeInstanceOf(WaitTimeoutError);
+    expect(timeoutError.eventNames).toEqual(['test2']);
+    expect(emitter.testEvents).toEqual([]);
+
+    const controller = new AbortController();
+    const abortPromise = emitter.waitFor('test2', { signal: controller.signal }).catch(err => err);
+    expect(emitter.testEvents.length).toBe(1);
+    controller.abort();
+    expect((await abortPromise).name).toBe('AbortError');
+    expect(emitter.testEvents).toEqual([]);
+
+    const filterPromise = emitter.waitFor('test1', {
+      filter: () => {
+        throw new Error('filter');
+      },
+    });
+    emitter.emitSync('test1', 1);
+    expect((await filterPromise.catch(err => err)).message).toBe('filter');
+    expect(emitter.testEvents).toEqual([]);
+
+    expect(await emitter.waitEventTimeout('test2', 10)).toBeUndefined();
+    expect(emitter.testEvents).toEqual([]);
+
+    setTimeout(() => emitter.emitSync('test2', 'data'), 10);
+    const anyResult = await emitter.waitAny(['test1', 'test2'], { timeout: 1000 });
+    expect(anyResult).toEqual({ data: 'data', eventName: 'test2' });
+    expect(emitter.testEvents).toEqual([]);
+
+    setTimeout(() => {
+      emitter.emitSync('test3', true);
+      emitter.emitSync('test1', 1);
+      emitter.emitSync('test3', false);
+      emitter.emitSync('test2', 'data');
+    }, 10);
+    const allResult: [number, string, boolean] = await emitter.waitAll(['test1', 'test2', 'test3']);
+    expect(allResult).toEqual([1, 'data', true]);
+    expect(emitter.testEvents).toEqual([]);
+
+    done();
+  });
+
+  test('child emitters', async done => {
+    const emitter = TestEmitter.createTestEmitter<{ test1: number }>();
+    const child = emitter.child<{ test1: number }, { user: string; theme: string }>('feature');
+    const grandChild = child.child('sub');
+    const calls: string[] = [];
+
+    expect(emitter.child('feature')).toBe(child);
+    expect(child.parent).toBe(emitter);
+    expect(grandChild.namespace).toBe('sub');
+
+    emitter.on('feature.test1' as any, (data: number, eventHash, eventName) => void calls.push(`parent ${String(eventName)} ${data}`));
+    emitter.on('feature.sub.test1' as any, (data: number, eventHash, eventName) => void calls.push(`parent ${String(eventName)} ${data}`));
+    child.on('test1', data => void calls.push(`child ${data}`));
+    child.on('sub.test1' as any, (data: number) => void calls.push(`child sub.test1 ${data}`));
+    grandChild.on('test1', data => void calls.push(`grandChild ${data}`));
+
+    child.emitSync('test1', 1);
+    expect(calls).toEqual(['child 1', 'parent feature.test1 1']);
+
+    calls.length = 0;
+    await grandChild.emitAsync('test1', 2);
+    expect(calls).toEqual(['grandChild 2', 'child sub.test1 2', 'parent feature.sub.test1 2']);
+
+    calls.length = 0;
+    child.on('test1', (data, eventHash, eventName, context) => context.stopPropagation(), { priority: 10 });
+    child.emitSync('test1', 3);
+    expect(calls).toEqual([]);
+
+    calls.length = 0;
+    emitter.broadcastSync('test1', 4);
+    expect(calls).toEqual(['grandChild 4']);
+
+    (emitter as EventEmitter<any, { user: string; theme: string }>).emitStateSync('user', 'admin');
+    (emitter as EventEmitter<any, { user: string; theme: string }>).emitStateSync('theme', 'light');
+    child.emitStateSync('theme', 'dark');
+    expect(child.getState('user')).toBe('admin');
+    expect(child.getState('theme')).toBe('dark');
+    expect(grandChild.getState('theme')).toBe('dark');
+
+    const users: string[] = [];
+    const themes: string[] = [];
+    grandChild.on('user', (data: string) => void users.push(data));
+    grandChild.on('theme', (data: string) => void themes.push(data));
+    (emitter as EventEmitter<any, { user: string; theme: string }>).emitStateSync('user', 'guest');
+    (emitter as EventEmitter<any, { user: string; theme: string }>).emitStateSync('theme', 'blue');
+    expect(users).toEqual(['admin', 'guest']);
+    expect(themes).toEqual(['dark']);
+
+    const replayed: string[] = [];
+    emitter.setStateHistory('user' as any, { size: 2 });
+    (emitter as EventEmitter<any, { user: string; theme: string }>).emitStateSync('user', 'owner');
+    grandChild.onState('user', (data: string) => void replayed.push(data), { replay: 2 });
+    expect(replayed).toEqual(['guest', 'owner']);
+    expect(child.getStateHistory('user').map(m => m.data)).toEqual(['guest', 'owner']);
+    expect(child.getStateHistory('theme').map(m => m.data)).toEqual(['dark']);
+    expect(child.snapshot().states).toEqual({ theme: 'dark', user: 'owner' });
+    expect(grandChild.snapshot().states).toEqual({ theme: 'dark', user: 'owner' });
+
+    let offCalled = 0;
+    child.triggerOffAll(() => void offCalled++);
+    grandChild.triggerOffAll(() => void offCalled++);
+    child.dispose();
+    expect(offCalled).toBe(2);
+    expect(child.parent).toBeNull();
+    expect(emitter.getChildren()).toEqual([]);
+    expect(grandChild.getChildren()).toEqual([]);
+    expect(emitter.testEvents.length).toBe(2);
+
+    const failingChild = emitter.child<{ test1: number }, { theme: string }>('failing');
+    const failingGrandChild = failingChild.child('sub');
+    failingChild.emitStateSync('theme', 'dark');
+    const failingHash = failingChild.on('test1', () => null);
+    failingChild.triggerOff(failingHash, () => {
+      throw new Error('trigger');
+    });
+    const bubbled: number[] = [];
+    emitter.on('failing.test1' as any, (data: number) => void bubbled.push(data));
+    failingChild.errorPolicy = 'aggregate';
+    expect(() => failingChild.dispose()).toThrow(EmitterAggregateError);
+    expect(emitter.getChildren()).toEqual([]);
+    expect(failingChild.parent).toBeNull();
+    expect(failingChild.hasState('theme')).toBe(false);
+    expect(failingGrandChild.parent).toBeNull();
+    failingChild.emitSync('test1', 1);
+    expect(bubbled).toEqual([]);
+
+    done();
+  });
+
+  test('bridge', async done => {
+    const listeners: ((message: any) => void)[][] = [[], []];
+    const createChannel = (index: number): BridgeChannel => ({
+      onMessage: listener => {
+        listeners[index].push(listener);
+        return () => (listeners[index] = listeners[index].filter(m => m !== listener));
+      },
+      send: message => setTimeout(() => listeners[1 - index].forEach(listener => listener(message)), 0),
+    });
+    const delay = () => new Promise(resolve => setTimeout(resolve, 20));
+
+    type EventMap = { 'task.run': number; 'task.stop': number; result: string; secret: string };
+    type StateMap = { config: { debug: boolean } };
+    const main = new EventEmitter<EventMap, StateMap>();
+    const worker = new EventEmitter<EventMap, StateMap>();
+    const options = { events: ['task.*', 'result', 'config'], serializer: jsonSerializer };
+    const tasks: [string, number][] = [];
+    const results: string[] = [];
+
+    main.emitStateSync('config', { debug: true });
+    worker.on('task.*', (data, eventHash, eventName) => void tasks.push([eventName, data]));
+    worker.on('secret', () => void tasks.push(['secret', null]));
+    const mainBridge = main.bridge(createChannel(0), options);
+    const workerBridge = worker.bridge(createChannel(1), options);
+    await delay();
+
+    expect(worker.getState('config')).toEqual({ debug: true });
+    main.emitSync('task.run', 1);
+    main.emitSync('task.stop', 2);
+    main.emitSync('secret', 'data');
+    await delay();
+    expect(tasks).toEqual([
+      ['task.run', 1],
+      ['task.stop', 2],
+    ]);
+
+    main.on('result', data => void results.push(data));
+    worker.on('result', data => void results.push(`worker ${data}`));
+    await delay();
+    worker.emitSync('result', 'done');
+    await delay();
+    expect(results).toEqual(['worker done', 'done']);
+
+    expect(main.getEventNames()).toContain('task.*');
+    worker.offEvent('task.*');
+    await delay();
+    expect(main.getEventNames()).not.toContain('task.*');
+
+    expect(worker.getEventNames()).toContain('result');
+    mainBridge.close();
+    await delay();
+    expect(mainBridge.closed).toBeTruthy();
+    expect(workerBridge.closed).toBeFalsy();
+    expect(worker.getEvents('result').length).toBe(1);
+    expect(main.getEvents('result').length).toBe(1);
+
+    const posted: any[] = [];
+    const messageListeners: ((event: { data: any }) => void)[] = [];
+    const channel = toBridgeChannel({
+      addEventListener: (type, listener) => messageListeners.push(listener),
+      postMessage: message => posted.push(message),
+      removeEventListener: (type, listener) => messageListeners.splice(messageListeners.indexOf(listener), 1),
+    });
+    const received: any[] = [];
+    const offMessage = channel.onMessage(message => received.push(message));
+    channel.send('ping');
+    messageListeners.forEach(listener => listener({ data: 'pong' }));
+    offMessage();
+    expect(posted).toEqual(['ping']);
+    expect(received).toEqual(['pong']);
+    expect(messageListeners).toEqual([]);
+
+    done();
+  });
+
+  test('snapshot & restore & persist', async done => {
+    type StateMap = { user: { name: string }; theme: string };
+    const emitter = new EventEmitter<{}, StateMap>();
+    const themes: string[] = [];
+
+    emitter.emitStateSync('user', { name: 'admin' });
+    emitter.emitStateSync('theme', 'dark');
+    const snapshot = emitter.snapshot({ version: 2 });
+    expect(JSON.parse(JSON.stringify(snapshot))).toEqual({ states: { theme: 'dark', user: { name: 'admin' } }, version: 2 });
+
+    const restored = new EventEmitter<{}, StateMap>();
+    restored.on('theme', theme => void themes.push(theme));
+    restored.restore(snapshot, { version: 2 });
+    expect(restored.getState('user')).toEqual({ name: 'admin' });
+    expect(themes).toEqual(['dark']);
+
+    const migrated = new EventEmitter<{}, StateMap>();
+    migrated.restore(
+      { states: { login: 'guest' } as any, version: 1 },
+      { migrations: { 2: ({ login, ...states }) => ({ ...states, user: { name: login } }) }, version: 2 },
+    );
+    expect(migrated.getState('user')).toEqual({ name: 'guest' });
+    expect(() => migrated.restore(snapshot)).toThrow(StateSnapshotVersionError);
+
+    const adapter = new MemoryStateAdapter();
+    adapter.save(snapshot);
+    const persisted = new EventEmitter<{}, StateMap>();
+    const persistence = persisted.persist(adapter, { debounce: 10, version: 2 });
+    await persistence.ready;
+    expect(persisted.getState('theme')).toBe('dark');
+
+    persisted.emitStateSync('theme', 'light');
+    persisted.emitStateSync('theme', 'blue');
+    expect(adapter.load().states.theme).toBe('dark');
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(adapter.load().states.theme).toBe('blue');
+
+    persistence.stop();
+    persisted.emitStateSync('theme', 'red');
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(adapter.load().states.theme).toBe('blue');
+
+    const files: { [filePath: string]: string } = {};
+    const fileAdapter = new FileStateAdapter('/states.json', {
+      readFile: async filePath => {
+        if (!(filePath in files)) throw Object.assign(new Error('not found'), { code: 'ENOENT' });
+        return files[filePath];
+      },
+      writeFile: async (filePath, data) => void (files[filePath] = data),
+    });
+    const filePersistence = emitter.persist(fileAdapter);
+    await filePersistence.ready;
+    await filePersistence.flush();
+    expect(JSON.parse(files['/states.json'])).toEqual({ states: { theme: 'dark', user: { name: 'admin' } }, version: 1 });
+    filePersistence.stop();
+
+    const loadErrors: any[] = [];
+    const savedSnapshots: StateSnapshot[] = [];
+    const failing = new EventEmitter<{}, StateMap>();
+    const failingPersistence = failing.persist(
+      {
+        load: () => Promise.reject(new Error('load')),
+        save: savedSnapshot => void savedSnapshots.push(savedSnapshot),
+      },
+      { debounce: 10, onError: err => void loadErrors.push(err) },
+    );
+    await failingPersistence.ready;
+    expect(loadErrors.map(m => m.message)).toEqual(['load']);
+    failing.emitStateSync('theme', 'light');
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(savedSnapshots.map(m => m.states.theme)).toEqual(['light']);
+    failingPersistence.stop();
+
+    done();
+  });
+
+  test('inspector', async done => {
+    const emitter = TestEmitter.createTestEmitter<{ test1: number; test2: number }>();
+    const warnings: MaxListenersExceededWarning[] = [];
+    const subscribed: InspectorRecord[] = [];
+    const inspector = emitter.inspect({ maxListeners: 2, onWarning: warning => void warnings.push(warning), size: 5 });
+    const unsubscribe = inspector.subscribe(record => void subscribed.push(record));
+
+    const eventHash = emitter.on('test1', () => null);
+    emitter.triggerOff(eventHash, () => null);
+    emitter.emitSync('test1', 1);
+    (emitter as EventEmitter<any, any>).emitStateSync('state', true);
+    emitter.off(eventHash);
+    expect(inspector.records.map(m => [m.type, m.listenerCount])).toEqual([
+      ['emit', 1],
+      ['state', 0],
+      ['emit', 0],
+      ['off', 0],
+      ['trigger', 0],
+    ]);
+    expect(subscribed.map(m => m.type)).toEqual(['on', 'emit', 'state', 'emit', 'off', 'trigger']);
+    expect(subscribed[4].eventHash).toBe(eventHash);
+    expect(subscribed[5].eventName).toBe(`trigger_off_${eventHash}`);
+    expect(subscribed[1].timestamp).toBeLessThanOrEqual(Date.now());
+
+    unsubscribe();
+    inspector.clear();
+    const registerListener = () => emitter.on('test2', () => null);
+    registerListener();
+    registerListener();
+    expect(warnings).toEqual([]);
+    registerListener();
+    registerListener();
+    expect(warnings.length).toBe(1);
+    expect(warnings[0].eventName).toBe('test2');
+    expect(warnings[0].count).toBe(3);
+    expect(warnings[0].stacks.length).toBe(3);
+    expect(warnings[0].stacks[0]).toContain('registerListener');
+    expect(subscribed.length).toBe(6);
+
+    emitter.offEvent('test2');
+    expect(inspector.records.filter(m => m.type === 'off').length).toBe(4);
+    registerListener();
+    registerListener();
+    registerListener();
+    expect(warnings.length).toBe(2);
+
+    inspector.stop();
+    emitter.emitSync('test1', 1);
+    expect(inspector.records[inspector.records.length - 1].type).toBe('on');
+
+    const nodeProcess = (globalThis as any).process;
+    const emitWarning = jest.spyOn(nodeProcess, 'emitWarning').mockImplementation(() => undefined);
+    try {
+      const defaultEmitter = TestEmitter.createTestEmitter<{ test: number }>();
+      defaultEmitter.inspect({ maxListeners: 1 });
+      defaultEmitter.on('test', () => null);
+      defaultEmitter.on('test', () => null);
+      expect(emitWarning).toHaveBeenCalledTimes(1);
+      expect(emitWarning.mock.calls[0][0]).toBeInstanceOf(MaxListenersExceededWarning);
+    } finally {
+      emitWarning.mockRestore();
+    }
+
+    done();
+  });
+
+  test('debounce & throttle & batch & distinct', async done => {
+    const emitter = TestEmitter.createTestEmitter<{ progress: number; scroll: number }>();
+    const sleep = (timeout: number) => new Promise(resolve => setTimeout(resolve, timeout));
+    const debounced: number[] = [];
+    const throttled: number[] = [];
+    const batches: number[][] = [];
+    const distinct: number[] = [];
+    const callback = (data: number) => void debounced.push(data);
+
+    emitter.on('progress', callback, { debounce: 20 });
+    emitter.on('progress', data => void throttled.push(data), { throttle: 30 });
+    emitter.on('progress', data => void batches.push(data), { batch: { size: 3, time: 50 } });
+    emitter.on('progress', data => void distinct.push(data), { distinct: true });
+    expect(emitter.hasCallback(callback)).toBeTruthy();
+
+    [1, 2, 2, 3, 3].forEach(data => emitter.emitSync('progress', data));
+    expect(debounced).toEqual([]);
+    expect(throttled).toEqual([1]);
+    expect(batches).toEqual([[1, 2, 2]]);
+    expect(distinct).toEqual([1, 2, 3]);
+
+    await sleep(60);
+    expect(debounced).toEqual([3]);
+    expect(throttled).toEqual([1, 3]);
+    expect(batches).toEqual([
+      [1, 2, 2],
+      [3, 3],
+    ]);
+
+    const errors: ListenerError[] = [];
+    emitter.onError(error => void errors.push(error));
+    emitter.on(
+      'scroll',
+      () => {
+        throw new Error('deferred');
+      },
+      { debounce: 0 },
+    );
+    emitter.emitSync('scroll', 1);
+    await sleep(10);
+    expect(errors.map(m => m.error.message)).toEqual(['deferred']);
+
+    const pending: number[] = [];
+    const hash = emitter.on('scroll', data => void pending.push(data), { debounce: 10 });
+    emitter.on('scroll', data => void pending.push(...data), { batch: { time: 10 } });
+    emitter.emitSync('scroll', 1);
+    emitter.off(hash);
+    emitter.offAll();
+    await sleep(30);
+    expect(pending).toEqual([]);
+
+    done();
+  });
+
+  test('subscribe & SubscriptionScope', async done => {
+    const sleep = (timeout: number) => new Promise(resolve => setTimeout(resolve, timeout));
+    const emitter = TestEmitter.createTestEmitter<{ test: number; other: string }>();
+    const values: number[] = [];
+
+    const subscription = emitter.subscribe('test', data => void values.push(data));
+    expect(subscription.closed).toBe(false);
+    emitter.emitSync('test', 1);
+    subscription[disposeSymbol]();
+    expect(subscription.closed).toBe(true);
+    subscription.unsubscribe();
+    emitter.emitSync('test', 2);
+    expect(values).toEqual([1]);
+
+    const removed = emitter.subscribe('test', () => {});
+    emitter.offEvent('test');
+    expect(removed.closed).toBe(true);
+    await emitter.subscribe('test', () => {})[asyncDisposeSymbol]();
+    expect(emitter.hasEvent('test')).toBe(false);
+
+    if (typeof Symbol.dispose === 'symbol') expect(disposeSymbol).toBe(Symbol.dispose);
+    const disposable: Disposable = emitter.subscribe('test', () => {});
+    disposable[disposeSymbol]();
+    expect(emitter.hasEvent('test')).toBe(false);
+    const asyncDisposables: AsyncDisposable[] = [emitter.subscribe('test', () => {}), new SubscriptionScope()];
+    await Promise.all(asyncDisposables.map(m => m[asyncDisposeSymbol]()));
+    expect(emitter.hasEvent('test')).toBe(false);
+
+    const otherEmitter = TestEmitter.createTestEmitter<{ test: number }>();
+    const cacheEmitter = TestCacheEmitter.createTestEmitter();
+    const order: string[] = [];
+    let unlistened = false;
+
+    const scope = new SubscriptionScope();
+    scope.add(emitter.subscribe('other', () => {}));
+    scope.add(otherEmitter.subscribe('test', () => {}));
+    scope.add(() => void order.push('first'));
+    scope.add({ unsubscribe: () => void order.push('second') });
+    scope.subscribeCache(
+      cacheEmitter,
+      'cache',
+      () => () => {
+        unlistened = true;
+      },
+      () => {},
+    );
+    expect(scope.size).toBe(5);
+    await sleep(0);
+
+    scope.dispose();
+    await sleep(0);
+    expect(scope.closed).toBe(true);
+    expect(scope.size).toBe(0);
+    expect(order).toEqual(['second', 'first']);
+    expect(emitter.hasEvent('other')).toBe(false);
+    expect(otherEmitter.hasEvent('test')).toBe(false);
+    expect(cacheEmitter.testEvents.length).toBe(0);
+    expect(unlistened).toBe(true);
+
+    const late = scope.add(emitter.subscribe('other', () => {}));
+    expect(late.closed).toBe(true);
+
+    const errorScope = new SubscriptionScope();
+    errorScope.add(() => void order.push('after error'));
+    errorScope.add(() => {
+      throw new Error('teardown');
+    });
+    expect(() => errorScope[disposeSymbol]()).toThrow('teardown');
+    expect(order).toEqual(['second', 'first', 'after error']);
+
+    done();
+  });
+
+  test('once & many & onUntil', done => {
+    const emitter = TestEmitter.createTestEmitter<{ test: number; 'user.created': string }>();
+    const values: number[] = [];
+    const triggered: string[] = [];
+
+    const onceCallback = (data: number) => {
+      values.push(data);
+      emitter.emitSync('test', data + 100);
+    };
+    const onceHash = emitter.once('test', onceCallback);
+    expect(emitter.hasCallback(onceCallback)).toBe(true);
+    emitter.triggerOff(onceHash, () => void triggered.push('once'));
+    emitter.emitSync('test', 1);
+    emitter.emitSync('test', 2);
+    expect(values).toEqual([1]);
+    expect(triggered).toEqual(['once']);
+    expect(emitter.has(onceHash)).toBe(false);
+
+    const manyValues: number[] = [];
+    emitter.many('test', 2, data => void manyValues.push(data));
+    [1, 2, 3].forEach(data => emitter.emitSync('test', data));
+    expect(manyValues).toEqual([1, 2]);
+    expect(() => emitter.many('test', 0, () => {})).toThrow(RangeError);
+
+    const users: string[] = [];
+    emitter.onUntil(
+      'user.*',
+      data => void users.push(data),
+      data => data === 'stop',
+    );
+    ['a', 'stop', 'b'].forEach(data => emitter.emitSync('user.created', data));
+    expect(users).toEqual(['a']);
+    expect(emitter.hasEvent('user.*')).toBe(false);
+
+    const stateEmitter = TestEmitter.createTestEmitter<{}>() as EventEmitter<{}, { count: number }>;
+    stateEmitter.emitStateSync('count', 1);
+    const states: number[] = [];
+    stateEmitter.once('count', data => void states.push(data));
+    stateEmitter.emitStateSync('count', 2);
+    expect(states).toEqual([1]);
+
+    stateEmitter.onUntil(
+      'count',
+      data => void states.push(data),
+      data => data >= 3,
+    );
+    stateEmitter.emitStateSync('count', 3);
+    stateEmitter.emitStateSync('count', 4);
+    expect(states).toEqual([1, 2]);
+    expect(stateEmitter.getEvents('count').length).toBe(0);
+
+    done();
+  });
+
+  test('cacheSubscribe linger & replay & errors', async done => {
+    const sleep = (timeout: number) => new Promise(resolve => setTimeout(resolve, timeout));
+    const emitter = TestCacheEmitter.createTestEmitter();
+    let starts = 0;
+    let stops = 0;
+    let push: (data: number) => void = null;
+    let fail: (error: any) => void = null;
+
+    const realCallback = (callback: (data: number) => void, errorCallback: (error: any) => void) => {
+      starts++;
+      push = callback;
+      fail = errorCallback;
+      return () => void stops++;
+    };
+
+    const received: number[] = [];
+    const hash1 = emitter.subscribe('price', realCallback, data => void received.push(data), { linger: 50 });
+    expect(emitter.getSubscriberCount('price')).toBe(1);
+    expect(emitter.isActive('price')).toBe(true);
+    await sleep(0);
+    push(1);
+
+    const late: number[] = [];
+    const hash2 = emitter.subscribe('price', realCallback, data => void late.push(data));
+    expect(late).toEqual([1]);
+    const noReplay: number[] = [];
+    emitter.unsubscribe(emitter.subscribe('price', realCallback, data => void noReplay.push(data), { replay: false }));
+    expect(noReplay).toEqual([]);
+
+    emitter.unsubscribe(hash2);
+    emitter.unsubscribe(hash1);
+    expect(emitter.getSubscriberCount('price')).toBe(0);
+    expect(emitter.isActive('price')).toBe(true);
+
+    const quoteCallback = () => () => undefined;
+    const quoteHash = emitter.subscribe('quote', quoteCallback, () => {}, { linger: 50 });
+    emitter.unsubscribe(quoteHash);
+    expect(emitter.isActive('quote')).toBe(true);
+    const lingerHash = emitter.subscribe('quote', quoteCallback, () => {}, { linger: 50 });
+    const shortHash = emitter.subscribe('quote', quoteCallback, () => {});
+    emitter.unsubscribe(lingerHash);
+    emitter.unsubscribe(shortHash);
+    expect(emitter.isActive('quote')).toBe(false);
+
+    await sleep(10);
+    const rejoined: number[] = [];
+    const hash3 = emitter.subscribe('price', realCallback, data => void rejoined.push(data));
+    expect(rejoined).toEqual([1]);
+    expect(starts).toBe(1);
+
+    emitter.emitter.offAll();
+    await sleep(70);
+    expect(emitter.isActive('price')).toBe(false);
+    expect(emitter.emitter.has(hash3)).toBe(false);
+    expect(stops).toBe(1);
+
+    const errors: string[] = [];
+    emitter.subscribe('price', realCallback, () => {}, { onError: error => void errors.push(error.message) });
+    await sleep(0);
+    fail(new Error('socket closed'));
+    await sleep(0);
+    expect(errors).toEqual(['socket closed']);
+    expect(emitter.isActive('price')).toBe(false);
+    expect(emitter.getSubscriberCount('price')).toBe(1);
+    expect(stops).toBe(2);
+
+    emitter.subscribe('price', realCallback, () => {});
+    expect(emitter.isActive('price')).toBe(true);
+    await sleep(0);
+    expect(starts).toBe(3);
+
+    emitter.subscribe(
+      'broken',
+      () => {
+        throw new Error('no connection');
+      },
+      () => {},
+      { onError: error => void errors.push(error.message) },
+    );
+    await sleep(0);
+    expect(errors).toEqual(['socket closed', 'no connection']);
+
+    done();
+  });
+
+  test('cacheEmitter.wrap', async done => {
+    const sleep = (timeout: number) => new Promise(resolve => setTimeout(resolve, timeout));
+    const cacheEmitter = TestCacheEmitter.createTestEmitter();
+    const calls: string[] = [];
+    let running = 0;
+    let maxRunning = 0;
+
+    const getUser = async (id: number, filter?: { active?: boolean; role?: string }) => {
+      calls.push(`${id}`);
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await sleep(10);
+      running--;
+      return { filter, id };
+    };
+
+    const cachedGetUser = cacheEmitter.wrap(getUser, { concurrency: 2, ttl: 1000 });
+    const results = await Promise.all([
+      cachedGetUser(1, { active: true, role: 'admin' }),
+      cachedGetUser(1, { role: 'admin', active: true }),
+      cachedGetUser(2),
+      cachedGetUser(3),
+      cachedGetUser(4),
+    ]);
+    expect(results.map(m => m.id)).toEqual([1, 1, 2, 3, 4]);
+    expect(calls).toEqual(['1', '2', '3', '4']);
+    expect(maxRunning).toBe(2);
+
+    await cachedGetUser(2);
+    expect(calls.length).toBe(4);
+    cachedGetUser.invalidate(2);
+    await cachedGetUser(2);
+    expect(calls.length).toBe(5);
+
+    const keyed = cacheEmitter.wrap((id: number) => id * 2, { key: id => `double:${id}`, ttl: 1000 });
+    expect(await keyed(21)).toBe(42);
+    expect(keyed.getKey(21)).toBe('double:21');
+    expect(cacheEmitter.wrap(getUser, { name: 'user' }).getKey(1, { role: 'admin', active: true })).toBe('user:[1,{"active":true,"role":"admin"}]');
+
+    expect(serializeCacheKey([undefined, null, NaN, new Date(0)])).toBe('[undefined,null,NaN,Date(1970-01-01T00:00:00.000Z)]');
+    expect(() => serializeCacheKey([new Map()])).toThrow(TypeError);
+    const circular: any = {};
+    circular.self = circular;
+    expect(() => serializeCacheKey(circular)).toThrow(TypeError);
+    const unserializable = cacheEmitter.wrap((value: any) => value);
+    let rejected: Promise<any> = null;
+    expect(() => (rejected = unserializable(circular))).not.toThrow();
+    await expect(rejected).rejects.toThrow(TypeError);
+    await expect(
+      cacheEmitter.wrap((id: number) => id, {
+        key: () => {
+          throw new Error('key');
+        },
+      })(1),
+    ).rejects.toThrow('key');
+
+    const queue = createConcurrencyQueue(1);
+    const controller = new AbortController();
+    const order: number[] = [];
+    const first = queue(() => sleep(10).then(() => order.push(1)));
+    const aborted = queue(() => order.push(2), controller.signal);
+    const third = queue(() => order.push(3));
+    controller.abort();
+    await expect(aborted).rejects.toThrow('aborted');
+    await Promise.all([first, third]);
+    expect(order).toEqual([1, 3]);
+
+    done();
+  });
+
+  test('handle & request', async done => {
+    type RequestMap = {
+      getUser: { request: number; response: { id: number; name: string } };
+      slow: { request: void; response: string };
+      fail: { request: string; response: void };
+    };
+    const emitter = new EventEmitter<{}, {}, RequestMap>();
+
+    const handlerHash = emitter.handle('getUser', async id => ({ id, name: `user ${id}` }));
+    expect(emitter.hasHandler('getUser')).toBe(true);
+    expect(() => emitter.handle('getUser', id => ({ id, name: '' }))).toThrow(RequestHandlerExistsError);
+
+    const user = await emitter.request('getUser', 1);
+    expect(user).toEqual({ id: 1, name: 'user 1' });
+
+    emitter.handle('fail', message => {
+      throw new Error(message);
+    });
+    await expect(emitter.request('fail', 'handler failed')).rejects.toThrow('handler failed');
+
+    emitter.handle('slow', () => new Promise<string>(resolve => setTimeout(() => resolve('late'), 50)));
+    await expect(emitter.request('slow', undefined, { timeout: 10 })).rejects.toBeInstanceOf(RequestTimeoutError);
+    expect(await emitter.request('slow', undefined, { timeout: 100 })).toBe('late');
+
+    const controller = new AbortController();
+    const aborted = emitter.request('slow', undefined, { signal: controller.signal });
+    controller.abort();
+    await expect(aborted).rejects.toThrow('aborted');
+
+    emitter.offHandle(handlerHash);
+    expect(emitter.hasHandler('getUser')).toBe(false);
+    await expect(emitter.request('getUser', 2)).rejects.toBeInstanceOf(NoRequestHandlerError);
+
+    done();
+  });
+
+  test('node emitter & event target adapters', done => {
+    const emitter = TestEmitter.createTestEmitter<{ data: string; pair: [number, number]; click: MouseEvent; message: string }>();
+
+    const nativeListeners = new Map<string | symbol, ((...args: any[]) => void)[]>();
+    const nodeEmitter = {
+      addListener: (eventName: string | symbol, listener: (...args: any[]) => void) =>
+        void nativeListeners.set(eventName, [...(nativeListeners.get(eventName) || []), listener]),
+      emit: (eventName: string | symbol, ...args: any[]) => (nativeListeners.get(eventName) || []).forEach(listener => listener(...args)),
+      removeListener: (eventName: string | symbol, listener: (...args: any[]) => void) =>
+        void nativeListeners.set(
+          eventName,
+          (nativeListeners.get(eventName) || []).filter(m => m !== listener),
+        ),
+    };
+
+    const forwarding = emitter.fromNodeEmitter(nodeEmitter, ['data', 'pair']);
+    expect(nativeListeners.size).toBe(0);
+
+    const received: any[] = [];
+    const dataHash = emitter.on('data', data => void received.push(data));
+    emitter.on('pair', data => void received.push(data));
+    expect(nativeListeners.get('data').length).toBe(1);
+    nodeEmitter.emit('data', 'chunk');
+    nodeEmitter.emit('pair', 1, 2);
+    expect(received).toEqual(['chunk', [1, 2]]);
+
+    emitter.off(dataHash);
+    expect(nativeListeners.get('data').length).toBe(0);
+    emitter.offAll();
+    expect(nativeListeners.get('pair').length).toBe(0);
+    emitter.on('**', data => void received.push(data));
+    expect(nativeListeners.get('data').length).toBe(1);
+    forwarding.unsubscribe();
+    expect(nativeListeners.get('data').length).toBe(0);
+    emitter.offAll();
+
+    const element = document.createElement('div');
+    const clicks: MouseEvent[] = [];
+    emitter.fromEventTarget(element, ['click']);
+    emitter.on('click', event => void clicks.push(event));
+    element.dispatchEvent(new MouseEvent('click'));
+    expect(clicks.length).toBe(1);
+    emitter.offEvent('click');
+    element.dispatchEvent(new MouseEvent('click'));
+    expect(clicks.length).toBe(1);
+
+    const node = emitter.toNodeEmitter();
+    const nodeMessages: string[] = [];
+    const nodeListener = (message: string) => void nodeMessages.push(message);
+    node.on('message', nodeListener);
+    node.once('message', message => void nodeMessages.push(`once ${message}`));
+    expect(node.emit('message', 'a')).toBe(true);
+    expect(node.listenerCount('message')).toBe(1);
+    node.removeListener('message', nodeListener);
+    expect(node.emit('message', 'b')).toBe(false);
+    expect(nodeMessages).toEqual(['a', 'once a']);
+    node.on('message', nodeListener);
+    emitter.offAll();
+    expect(node.listenerCount('message')).toBe(0);
+
+    const target = emitter.toEventTarget();
+    const details: string[] = [];
+    const controller = new AbortController();
+    const domListener = (event: CustomEvent) => void details.push(event.detail);
+    target.addEventListener('message', domListener);
+    target.addEventListener('message', domListener);
+    target.addEventListener('message', { handleEvent: (event: CustomEvent) => void details.push(`object ${event.detail}`) }, { once: true });
+    target.addEventListener('message', (event: CustomEvent) => void details.push(`signal ${event.detail}`), { signal: controller.signal });
+    emitter.emitSync('message', 'first');
+    controller.abort();
+    emitter.emitSync('message', 'second');
+    target.removeEventListener('message', domListener);
+    emitter.emitSync('message', 'third');
+    expect(details).toEqual(['first', 'object first', 'signal first', 'second']);
+    expect(emitter.hasEvent('message')).toBe(false);
+
+    target.addEventListener('click', (event: MouseEvent) => event.preventDefault());
+    expect(target.dispatchEvent(new MouseEvent('click', { cancelable: true }))).toBe(false);
+
+    done();
+  });
+
+  test('owner-bound listeners', done => {
+    const emitter = TestEmitter.createTestEmitter<{ test: number; other: number }>();
+    const owner = {};
+    const values: number[] = [];
+    const triggered: string[] = [];
+    const callback = (data: number) => void values.push(data);
+
+    const ownedHash = emitter.on('test', callback, { owner });
+    emitter.on('other', callback, { owner, distinct: true });
+    const freeHash = emitter.on('test', callback);
+    emitter.triggerOff(ownedHash, () => void triggered.push('off'));
+    emitter.triggerOffEvent('other', () => void triggered.push('offEvent'));
+
+    const ownedEvent = emitter.testEvents.find(m => m.eventHash === ownedHash);
+    expect(ownedEvent.callback).not.toBe(callback);
+    expect(ownedEvent.listener).toBe(undefined);
+
+    emitter.emitSync('test', 1);
+    emitter.emitSync('other', 2);
+    expect(values).toEqual([1, 1, 2]);
+
+    emitter.offOwner(owner);
+    expect(triggered).toEqual(['off', 'offEvent']);
+    expect(emitter.has(ownedHash)).toBe(false);
+    expect(emitter.has(freeHash)).toBe(true);
+    expect(emitter.hasEvent('other')).toBe(false);
+
+    emitter.emitSync('test', 3);
+    expect(values).toEqual([1, 1, 2, 3]);
+
+    const onceHash = emitter.once('test', callback, { owner });
+    emitter.emitSync('test', 4);
+    expect(emitter.has(onceHash)).toBe(false);
+    emitter.offOwner(owner);
+    expect(emitter.has(freeHash)).toBe(true);
+
+    const globalScope = globalThis as any;
+    const OriginalRegistry = globalScope.FinalizationRegistry;
+    const cleanups: ((eventHash: string) => void)[] = [];
+    const registered: string[] = [];
+    globalScope.FinalizationRegistry = class {
+      constructor(cleanup: (eventHash: string) => void) {
+        cleanups.push(cleanup);
+      }
+      public register(target: object, eventHash: string) {
+        registered.push(eventHash);
+      }
+      public unregister() {
+        // IGNORE
+      }
+    };
+    try {
+      const weakEmitter = TestEmitter.createTestEmitter<{ test: number }>();
+      const errors: ListenerError[] = [];
+      weakEmitter.onError(error => void errors.push(error));
+      const collectedHash = weakEmitter.on('test', callback, { owner: {} });
+      weakEmitter.triggerOff(collectedHash, () => {
+        throw new Error('trigger');
+      });
+      expect(registered).toEqual([collectedHash]);
+
+      expect(() => cleanups[0](collectedHash)).not.toThrow();
+      expect(weakEmitter.has(collectedHash)).toBe(false);
+      expect(errors.map(error => [error.error.message, error.phase])).toEqual([['trigger', 'off']]);
+      expect(() => cleanups[0](collectedHash)).not.toThrow();
+    } finally {
+      globalScope.FinalizationRegistry = OriginalRegistry;
+    }
+
     done();
   });
 });
@@ -1,7 +1,113 @@
+import guid from 'berish-guid';
+import { CachedFunction, CacheWrapOptions, createConcurrencyQueue, serializeCacheKey } from './cacheWrap';
+import { getAbortReason } from './errors';
 import { EventEmitter } from './eventEmitter';
 
+export interface CacheCallOptions {
+  /**
+   * Время (мс), в течение которого результат вызова считается свежим и возвращается без реального вызова.
+   * Если не указано, то результат не сохраняется после завершения вызова
+   */
+  ttl?: number;
+  /**
+   * Время (мс) после истечения ttl, в течение которого возвращается устаревший результат, а реальный вызов обновляет его в фоне
+   */
+  staleWhileRevalidate?: number;
+  /**
+   * Теги результата для группового сброса через invalidateByTag
+   */
+  tags?: string[];
+  /**
+   * Повтор реального вызова при ошибке
+   */
+  retry?: CacheRetryOptions;
+}
+
+export interface CacheRetryOptions {
+  /**
+   * Количество повторов после первой ошибки
+   */
+  count: number;
+  /**
+   * Задержка (мс) перед первым повтором (defaults 0)
+   */
+  delay?: number;
+  /**
+   * Множитель задержки для каждого следующего повтора (defaults 1)
+   */
+  factor?: number;
+  /**
+   * Максимальная задержка (мс) между повторами
+   */
+  maxDelay?: number;
+}
+
+export interface CacheCallRequestOptions extends CacheCallOptions {
+  /**
+   * Отмена ожидания для текущего вызова. Реальный вызов отменяется, когда его перестают ожидать все вызовы
+   */
+  signal?: AbortSignal;
+}
+
+export type CacheCallbackType<Result> = (signal?: AbortSignal) => Result | Promise<Result>;
+
+export interface CacheEmitterOptions extends CacheCallOptions {
+  /**
+   * Максимальное количество сохраненных результатов. При превышении удаляются давно не использованные (LRU)
+   */
+  maxEntries?: number;
+}
+
+export interface CacheSubscribeOptions {
+  /**
+   * Время (мс), в течение которого реальная подписка сохраняется после ухода последнего слушателя (defaults 0).
+   * Используется значение слушателя, который уходит последним
+   */
+  linger?: number;
+  /**
+   * Передать новому слушателю последнее значение, полученное реальной подпиской (defaults true)
+   */
+  replay?: boolean;
+  /**
+   * Обработчик ошибки реальной подписки
+   */
+  onError?: (error: any) => void;
+}
+
+export type CacheSubscribeCallbackType<Result> = (callback: (data: Result) => void, errorCallback: (error: any) => void) => (() => void) | Promise<() => void>;
+
+export interface CacheEntry<Result> {
+  data: Result;
+  expiresAt: number;
+  staleAt: number;
+  tags: string[];
+}
+
+interface CacheRequest {
+  tags: string[];
+  controller: AbortController;
+  invalidated: boolean;
+}
+
+interface CacheSubscription {
+  subscribers: Map<string, CacheSubscribeOptions>;
+  unlistenerPromise: Promise<() => void>;
+  active: boolean;
+  hasValue: boolean;
+  value: any;
+  lingerTimer: ReturnType<typeof setTimeout>;
+}
+
 export class CacheEmitter {
   protected _emitter = new EventEmitter();
+  protected _options: CacheEmitterOptions;
+  protected _cache = new Map<string, CacheEntry<any>>();
+  protected _requests = new Map<string, CacheRequest>();
+  protected _subscriptions = new Map<string, CacheSubscription>();
+
+  constructor(options?: CacheEmitterOptions) {
+    this._options = options || {};
+  }
 
   public get emitter() {
     return this._emitter;
@@ -11,63 +117,289 @@ export class CacheEmitter {
    * Кешированный вызов метода. Если в процессе исполнения метода, вызывается этот метод еще раз,
    * то не произовдит дополнительных запросов, а ожидает выполнение первого по ключу.
    * Как только реальный запрос исполнится, вернет ответ всем остальным.
+   * Если указан ttl, то результат сохраняется и возвращается без реального вызова, пока не устареет.
+   * Ошибка реального вызова (после всех повторов) возвращается через reject всем ожидающим вызовам
    * @param eventName Ключ, по которому определяется уникальность кешированных вызовов
-   * @param realCallback Настоящий вызов метода. Вызвается единожды для кешированного вызова
+   * @param realCallback Настоящий вызов метода. Вызвается единожды для кешированного вызова. Получает signal отмены реального вызова
+   * @param options Настройки хранения результата и повторов. Переопределяют настройки, переданные в конструктор
    */
-  public call<Result>(eventName: string, realCallback: () => Result | Promise<Result>): Promise<Result> {
-    return new Promise((resolve, reject) => {
-      const responseCall = (type: 'resolve' | 'reject', data: Result) => {
-        if (type === 'resolve') return resolve(data);
-        return reject(data);
-      };
-      const hasEvent = this._emitter.hasEvent(eventName);
-      const eventHash = this._emitter.on(eventName, ({ data, type }) => {
-        responseCall(type, data);
-        if (this._emitter.has(eventHash)) this._emitter.off(eventHash);
-      });
-      if (!hasEvent) {
-        Promise.resolve()
-          .then(() => realCallback())
-          .then(result => this._emitter.emitAsync<any>(eventName, { data: result, type: 'resolve' }))
-          .catch(err => this._emitter.emitAsync<any>(eventName, { data: err, type: 'resolve' }));
+  public call<Result>(eventName: string, realCallback: CacheCallbackType<Result>, options?: CacheCallRequestOptions): Promise<Result> {
+    const callOptions: CacheCallRequestOptions = { ...this._options, ...options };
+    const entry = this._getEntry<Result>(eventName);
+
+    if (entry) {
+      const now = Date.now();
+      if (now < entry.expiresAt) return Promise.resolve(entry.data);
+      if (now < entry.staleAt) {
+        this._callRequest(eventName, realCallback, { ...callOptions, signal: null }).catch(() => {
+          // IGNORE
+        });
+        return Promise.resolve(entry.data);
+      }
+      this._cache.delete(eventName);
+    }
+
+    return this._callRequest(eventName, realCallback, callOptions);
+  }
+
+  /**
+   * Оборачивает функцию в кешированные вызовы. Ключ вызова вычисляется по аргументам через options.key
+   * или стабильной сериализацией аргументов (serializeCacheKey)
+   * @param fn Исходная функция
+   * @param options Ключ, ограничение одновременных вызовов и настройки хранения результата
+   * @returns Функция с теми же аргументами, которая возвращает Promise результата (отклоненный, если ключ не удалось вычислить)
+   */
+  public wrap<Args extends any[], Result>(fn: (...args: Args) => Result | Promise<Result>, options?: CacheWrapOptions<Args>): CachedFunction<Args, Result> {
+    const { key, name, concurrency, ...callOptions } = options || ({} as CacheWrapOptions<Args>);
+    const prefix = name || `wrap:${guid.guid()}`;
+    const getKey = (...args: Args) => (key ? key(...args) : `${prefix}:${serializeCacheKey(args)}`);
+    const queue = concurrency > 0 && concurrency !== Infinity ? createConcurrencyQueue(concurrency) : null;
+
+    const cachedFunction = ((...args: Args) => {
+      let eventName: string;
+      try {
+        eventName = getKey(...args);
+      } catch (err) {
+        return Promise.reject(err);
       }
+      return this.call<Result>(eventName, signal => (queue ? queue(() => fn(...args), signal) : fn(...args)), callOptions);
+    }) as CachedFunction<Args, Result>;
+    cachedFunction.getKey = getKey;
+    cachedFunction.invalidate = (...args: Args) => this.invalidate(getKey(...args));
+    return cachedFunction;
+  }
+
+  /**
+   * Сбрасывает сохраненный результат по ключу. Результат вызова, который исполняется в данный момент, также не будет сохранен
+   * @param eventName Ключ кешированного вызова
+   */
+  public invalidate(eventName: string) {
+    const request = this._requests.get(eventName);
+    if (request) request.invalidated = true;
+    this._cache.delete(eventName);
+  }
+
+  /**
+   * Сбрасывает все сохраненные результаты с тегом
+   * @param tag Тег, переданный в options.tags
+   */
+  public invalidateByTag(tag: string) {
+    this._cache.forEach((entry, eventName) => {
+      if (entry.tags.indexOf(tag) !== -1) this._cache.delete(eventName);
+    });
+    this._requests.forEach(request => {
+      if (request.tags.indexOf(tag) !== -1) request.invalidated = true;
     });
   }
 
   /**
-   * Кешированный подписка. Если подписка уже зарегистрирована, начинает прослушивать без дополнительной подписки.
-   * Если подписки нет, то вызывает метод главной подписки и после вызывает метод кешированной подписки
+   * Сбрасывает все сохраненные результаты
+   */
+  public clear() {
+    this._cache.clear();
+    this._requests.forEach(request => (request.invalidated = true));
+  }
+
+  /**
+   * Кешированный подписка. Если подписка уже зарегистрирована, начинает прослушивать без дополнительной подписки
+   * и получает последнее значение реальной подписки.
+   * Если подписки нет, то вызывает метод главной подписки и после вызывает метод кешированной подписки.
+   * Реальная подписка удаляется, когда уходит последний слушатель (после linger).
+   * Ошибка реальной подписки (исключение, reject или errorCallback) передается в options.onError всех слушателей,
+   * следующий слушатель запускает реальную подписку заново
    * @param eventName Ключ, по которому определяется уникальность кешированных вызовов
-   * @param callCallback Настоящий вызов метода подписки. Вызвается единожды для кешированной подписки
+   * @param realCallback Настоящий вызов метода подписки. Вызвается единожды для кешированной подписки
    * @param cacheCallback Метод кешированной подписки
+   * @param options Задержка удаления реальной подписки, воспроизведение последнего значения и обработчик ошибок
    */
   public subscribe<Result>(
     eventName: string,
-    realCallback: (callback: (data: Result) => void) => (() => void) | Promise<() => void>,
+    realCallback: CacheSubscribeCallbackType<Result>,
     cacheCallback: (data: Result) => void,
+    options?: CacheSubscribeOptions,
   ) {
-    const hasEvent = this._emitter.hasEvent(eventName);
-    const eventHash = this._emitter.on(eventName, cacheCallback);
-    if (!hasEvent) {
-      let unlistenerPromise = Promise.resolve().then(() =>
-        realCallback(data => {
-          this._emitter.emitAsync<any>(eventName, data);
-        }),
-      );
-      const triggerOffEventHash = this._emitter.triggerOffEvent(eventName, async () => {
-        let unlistener = unlistenerPromise && (await unlistenerPromise);
-        if (unlistener) {
-          unlistener();
-          unlistener = null;
-          unlistenerPromise = null;
-        }
-        this._emitter.off(triggerOffEventHash);
-      });
+    const subscribeOptions = options || {};
+    let subscription = this._subscriptions.get(eventName);
+    if (!subscription) {
+      subscription = { active: false, hasValue: false, lingerTimer: null, subscribers: new Map(), unlistenerPromise: null, value: undefined };
+      this._subscriptions.set(eventName, subscription);
     }
+    if (subscription.lingerTimer) clearTimeout(subscription.lingerTimer);
+    subscription.lingerTimer = null;
+
+    const currentSubscription = subscription;
+    const eventHash = this._emitter.on(eventName, cacheCallback, { exact: true });
+    currentSubscription.subscribers.set(eventHash, subscribeOptions);
+    const triggerOffHash = this._emitter.triggerOff(eventHash, () => {
+      this._emitter.offTriggerOff(triggerOffHash);
+      this._releaseSubscription(eventName, currentSubscription, eventHash);
+    });
+
+    if (!currentSubscription.active) this._startSubscription(eventName, currentSubscription, realCallback);
+    else if (currentSubscription.hasValue && subscribeOptions.replay !== false) cacheCallback(currentSubscription.value);
     return eventHash;
   }
 
   public unsubscribe(eventHash: string) {
     this._emitter.off(eventHash);
   }
+
+  /**
+   * Количество слушателей кешированной подписки
+   * @param eventName Ключ кешированной подписки
+   */
+  public getSubscriberCount(eventName: string): number {
+    const subscription = this._subscriptions.get(eventName);
+    return subscription ? subscription.subscribers.size : 0;
+  }
+
+  /**
+   * Запущена ли реальная подписка (в том числе в течение linger после ухода последнего слушателя)
+   * @param eventName Ключ кешированной подписки
+   */
+  public isActive(eventName: string): boolean {
+    const subscription = this._subscriptions.get(eventName);
+    return !!subscription && subscription.active;
+  }
+
+  protected _callRequest<Result>(eventName: string, realCallback: CacheCallbackType<Result>, options: CacheCallRequestOptions): Promise<Result> {
+    return new Promise((resolve, reject) => {
+      const signal = options.signal;
+      if (signal && signal.aborted) return reject(getAbortReason(signal));
+
+      const detach = () => {
+        if (this._emitter.has(eventHash)) this._emitter.off(eventHash);
+        if (signal) signal.removeEventListener('abort', abortCall);
+      };
+      const abortCall = () => {
+        detach();
+        reject(getAbortReason(signal));
+        this._abortRequest(eventName);
+      };
+      const responseCall = (type: 'resolve' | 'reject', data: Result) => {
+        detach();
+        if (type === 'resolve') return resolve(data);
+        return reject(data);
+      };
+      const eventHash = this._emitter.on(eventName, ({ data, type }) => responseCall(type, data), { exact: true });
+      if (signal) signal.addEventListener('abort', abortCall);
+
+      if (!this._requests.has(eventName)) {
+        const controller = typeof AbortController !== 'undefined' ? new AbortController() : null;
+        const request: CacheRequest = { tags: options.tags || [], controller, invalidated: false };
+        this._requests.set(eventName, request);
+
+        this._runRequest(realCallback, controller && controller.signal, options.retry, 0)
+          .then(result => this._settleRequest(eventName, request, 'resolve', result, options))
+          .catch(err => this._settleRequest(eventName, request, 'reject', err, options));
+      }
+    });
+  }
+
+  protected _runRequest<Result>(realCallback: CacheCallbackType<Result>, signal: AbortSignal, retry: CacheRetryOptions, attempt: number): Promise<Result> {
+    return Promise.resolve()
+      .then(() => realCallback(signal))
+      .catch(err => {
+        if ((signal && signal.aborted) || !retry || attempt >= retry.count) throw err;
+
+        const delay = Math.min((retry.delay || 0) * Math.pow(retry.factor || 1, attempt), retry.maxDelay >= 0 ? retry.maxDelay : Infinity);
+        return new Promise(resolve => setTimeout(resolve, delay)).then(() => {
+          if (signal && signal.aborted) throw getAbortReason(signal);
+          return this._runRequest(realCallback, signal, retry, attempt + 1);
+        });
+      });
+  }
+
+  protected async _settleRequest(eventName: string, request: CacheRequest, type: 'resolve' | 'reject', data: any, options: CacheCallOptions) {
+    if (this._requests.get(eventName) !== request) return;
+    this._requests.delete(eventName);
+
+    if (type === 'resolve' && !request.invalidated) this._setEntry(eventName, request, data, options);
+    await this._emitter.emitAsync<any>(eventName, { data, type });
+  }
+
+  protected _abortRequest(eventName: string) {
+    const request = this._requests.get(eventName);
+    if (!request || this._emitter.getEvents(eventName).length > 0) return;
+
+    this._requests.delete(eventName);
+    if (request.controller) request.controller.abort();
+  }
+
+  protected _getEntry<Result>(eventName: string): CacheEntry<Result> {
+    const entry = this._cache.get(eventName);
+    if (entry) {
+      this._cache.delete(eventName);
+      this._cache.set(eventName, entry);
+    }
+    return entry;
+  }
+
+  protected _setEntry<Result>(eventName: string, request: CacheRequest, data: Result, options: CacheCallOptions) {
+    if (!(options.ttl > 0)) return;
+
+    const expiresAt = Date.now() + options.ttl;
+    const staleAt = expiresAt + (options.staleWhileRevalidate || 0);
+    this._cache.delete(eventName);
+    this._cache.set(eventName, { data, expiresAt, staleAt, tags: request.tags });
+
+    const maxEntries = this._options.maxEntries;
+    if (maxEntries > 0) {
+      const eventNames = Array.from(this._cache.keys());
+      eventNames.slice(0, Math.max(eventNames.length - maxEntries, 0)).forEach(oldEventName => this._cache.delete(oldEventName));
+    }
+  }
+
+  protected _startSubscription<Result>(eventName: string, subscription: CacheSubscription, realCallback: CacheSubscribeCallbackType<Result>) {
+    const isCurrent = () => subscription.unlistenerPromise === unlistenerPromise;
+    const callback = (data: Result) => {
+      if (!isCurrent()) return;
+      subscription.value = data;
+      subscription.hasValue = true;
+      this._emitter.emitAsync<any>(eventName, data);
+    };
+    const errorCallback = (error: any) => {
+      if (!isCurrent()) return;
+      this._stopSubscription(subscription);
+      subscription.subscribers.forEach(options => {
+        if (options.onError) options.onError(error);
+      });
+    };
+
+    subscription.active = true;
+    const unlistenerPromise = Promise.resolve().then(() => realCallback(callback, errorCallback));
+    subscription.unlistenerPromise = unlistenerPromise;
+    unlistenerPromise.catch(errorCallback);
+  }
+
+  protected _stopSubscription(subscription: CacheSubscription) {
+    const unlistenerPromise = subscription.unlistenerPromise;
+    if (subscription.lingerTimer) clearTimeout(subscription.lingerTimer);
+    subscription.lingerTimer = null;
+    subscription.active = false;
+    subscription.unlistenerPromise = null;
+    if (!unlistenerPromise) return;
+
+    unlistenerPromise
+      .then(unlistener => {
+        if (unlistener) unlistener();
+      })
+      .catch(() => {
+        // IGNORE
+      });
+  }
+
+  protected _releaseSubscription(eventName: string, subscription: CacheSubscription, eventHash: string) {
+    const subscribeOptions = subscription.subscribers.get(eventHash);
+    const linger = (subscribeOptions && subscribeOptions.linger) || 0;
+    subscription.subscribers.delete(eventHash);
+    if (subscription.subscribers.size > 0 || this._subscriptions.get(eventName) !== subscription) return;
+
+    const close = () => {
+      this._subscriptions.delete(eventName);
+      this._stopSubscription(subscription);
+    };
+    if (subscription.active && linger > 0) subscription.lingerTimer = setTimeout(close, linger);
+    else close();
+  }
 }
@@ -0,0 +1,107 @@
+import { CacheCallOptions } from './cacheEmitter';
+import { getAbortReason } from './errors';
+
+export interface CacheWrapOptions<Args extends any[]> extends CacheCallOptions {
+  /**
+   * Ключ кешированного вызова по аргументам (defaults название и сериализованные аргументы)
+   */
+  key?: (...args: Args) => string;
+  /**
+   * Префикс ключа по умолчанию. Если не указан, то используется уникальный префикс обертки
+   */
+  name?: string;
+  /**
+   * Максимальное количество одновременно исполняемых вызовов с разными ключами. Остальные ожидают в очереди (defaults без ограничения)
+   */
+  concurrency?: number;
+}
+
+/**
+ * Функция с сигнатурой исходной функции, вызовы которой кешируются и дедуплицируются по ключу
+ */
+export interface CachedFunction<Args extends any[], Result> {
+  (...args: Args): Promise<Result>;
+  /**
+   * Ключ кешированного вызова для аргументов
+   */
+  getKey(...args: Args): string;
+  /**
+   * Сбрасывает сохраненный результат для аргументов
+   */
+  invalidate(...args: Args): void;
+}
+
+export type ConcurrencyQueue = <Result>(task: () => Result | Promise<Result>, signal?: AbortSignal) => Promise<Result>;
+
+/**
+ * Стабильная сериализация аргументов: ключи объектов сортируются, undefined и Date сохраняются.
+ * Функции, экземпляры классов и циклические ссылки не поддерживаются (TypeError), для них нужен options.key
+ * @param value Значение
+ */
+export function serializeCacheKey(value: any): string {
+  return serializeValue(value, []);
+}
+
+/**
+ * Создает очередь, которая исполняет не больше concurrency задач одновременно.
+ * Задача, signal которой отменен до начала исполнения, удаляется из очереди
+ * @param concurrency Максимальное количество одновременно исполняемых задач
+ */
+export function createConcurrencyQueue(concurrency: number): ConcurrencyQueue {
+  let running = 0;
+  const queue: (() => void)[] = [];
+
+  const release = () => {
+    running--;
+    const next = queue.shift();
+    if (next) next();
+  };
+
+  return <Result>(task: () => Result | Promise<Result>, signal?: AbortSignal) =>
+    new Promise<Result>((resolve, reject) => {
+      if (signal && signal.aborted) return reject(getAbortReason(signal));
+
+      const onAbort = () => {
+        const index = queue.indexOf(run);
+        if (index === -1) return;
+        queue.splice(index, 1);
+        reject(getAbortReason(signal));
+      };
+      const run = () => {
+        running++;
+        if (signal) signal.removeEventListener('abort', onAbort);
+        new Promise<Result>(resolveTask => resolveTask(task())).then(
+          result => {
+            release();
+            resolve(result);
+          },
+          err => {
+            release();
+            reject(err);
+          },
+        );
+      };
+
+      if (running < concurrency) return run();
+      queue.push(run);
+      if (signal) signal.addEventListener('abort', onAbort);
+    });
+}
+
+function serializeValue(value: any, parents: any[]): string {
+  if (value === undefined) return 'undefined';
+  if (typeof value === 'number') return Number.isFinite(value) ? JSON.stringify(value) : String(value);
+  if (typeof value === 'bigint') return `${String(value)}n`;
+  if (value === null || typeof value === 'string' || typeof value === 'boolean') return JSON.stringify(value);
+  if (typeof value !== 'object') throw new TypeError(`Cannot serialize ${typeof value} as a cache key`);
+  if (value instanceof Date) return `Date(${value.toISOString()})`;
+  if (parents.indexOf(value) !== -1) throw new TypeError('Cannot serialize a circular structure as a cache key');
+
+  const nextParents = [...parents, value];
+  if (Array.isArray(value)) return `[${value.map(item => serializeValue(item, nextParents)).join(',')}]`;
+
+  const prototype = Object.getPrototypeOf(value);
+  if (prototype !== Object.prototype && prototype !== null) throw new TypeError('Cannot serialize a class instance as a cache key');
+  const keys = Object.keys(value).sort();
+  return `{${keys.map(key => `${JSON.stringify(key)}:${serializeValue(value[key], nextParents)}`).join(',')}}`;
+}
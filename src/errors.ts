@@ -0,0 +1,56 @@
+import { EventNameType } from './eventEmitter';
+
+/**
+ * Политика обработки ошибок слушателей:
+ * 'throw' - ошибка выбрасывается из emit сразу, оставшиеся слушатели не вызываются,
+ * 'isolate' - ошибка передается в обработчики onError, оставшиеся слушатели вызываются,
+ * 'aggregate' - оставшиеся слушатели вызываются, после чего все ошибки выбрасываются одной EmitterAggregateError
+ */
+export type ErrorPolicyType = 'throw' | 'isolate' | 'aggregate';
+
+/**
+ * Где произошла ошибка: в слушателе события или в обратном вызове triggerOff
+ */
+export type ListenerErrorPhaseType = 'emit' | 'off';
+
+export class ListenerError extends Error {
+  public error: any;
+  public eventName: EventNameType;
+  public eventHash: string;
+  public phase: ListenerErrorPhaseType;
+
+  constructor(error: any, eventName: EventNameType, eventHash: string, phase: ListenerErrorPhaseType) {
+    super(
+      `${eventHash ? `Listener ${eventHash}` : 'Middleware'} of "${String(eventName)}" failed: ${
+        error && error.message !== undefined ? error.message : String(error)
+      }`,
+    );
+    this.name = 'ListenerError';
+    this.error = error;
+    this.eventName = eventName;
+    this.eventHash = eventHash;
+    this.phase = phase;
+  }
+}
+
+export class EmitterAggregateError extends Error {
+  public errors: ListenerError[];
+
+  constructor(errors: ListenerError[]) {
+    super(`${errors.length} listener(s) failed`);
+    this.name = 'AggregateError';
+    this.errors = errors;
+  }
+}
+
+/**
+ * Причина отмены AbortSignal: signal.reason, а если окружение его не поддерживает - ошибка AbortError
+ */
+export function getAbortReason(signal: AbortSignal) {
+  const reason = (signal as any).reason;
+  if (reason !== undefined) return reason;
+
+  const error = new Error('The operation was aborted');
+  error.name = 'AbortError';
+  return error;
+}
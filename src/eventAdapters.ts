@@ -0,0 +1,309 @@
+import { EventEmitter, EventNameType } from './eventEmitter';
+import { matchEventName } from './eventPattern';
+import { SubscribeMiddleware } from './middleware';
+import { createSubscription, Subscription } from './subscription';
+
+export type NativeListener = (...args: any[]) => void;
+
+/**
+ * Минимальный контракт EventEmitter из Node.js
+ */
+export interface NodeEmitterLike {
+  addListener(eventName: string | symbol, listener: NativeListener): any;
+  removeListener(eventName: string | symbol, listener: NativeListener): any;
+}
+
+/**
+ * Минимальный контракт EventTarget (DOM)
+ */
+export interface EventTargetLike {
+  addEventListener(type: string, listener: (event: any) => void, options?: boolean | AddEventListenerOptions): void;
+  removeEventListener(type: string, listener: (event: any) => void, options?: boolean | EventListenerOptions): void;
+}
+
+export interface FromNodeEmitterOptions {
+  /**
+   * Преобразование аргументов нативного события в данные события (defaults первый аргумент или массив, если аргументов несколько)
+   */
+  transform?: (args: any[], eventName: EventNameType) => any;
+}
+
+export interface FromEventTargetOptions {
+  /**
+   * Преобразование нативного события в данные события (defaults само событие)
+   */
+  transform?: (event: any, eventName: EventNameType) => any;
+  capture?: boolean;
+  passive?: boolean;
+}
+
+export type EventTargetListener = ((event: any) => void) | { handleEvent(event: any): void };
+
+interface NativeListenerRecord<Listener> {
+  listener: Listener;
+  eventHash: string;
+  capture?: boolean;
+}
+
+/**
+ * Передает события Node.js EventEmitter в эмиттер.
+ * Нативный слушатель добавляется, пока у эмиттера есть слушатели события, и удаляется через off, offEvent или offAll
+ * @param emitter Эмиттер
+ * @param source Node.js EventEmitter
+ * @param eventNames Названия передаваемых событий
+ * @param options Преобразование аргументов
+ */
+export function fromNodeEmitter(
+  emitter: EventEmitter<any, any>,
+  source: NodeEmitterLike,
+  eventNames: EventNameType[],
+  options?: FromNodeEmitterOptions,
+): Subscription {
+  const transform = (options && options.transform) || ((args: any[]) => (args.length > 1 ? args : args[0]));
+
+  return forwardNativeEvents(emitter, eventNames, eventName => {
+    const listener = (...args: any[]) => emitter.emitSync(eventName, transform(args, eventName));
+    source.addListener(eventName as string | symbol, listener);
+    return () => source.removeListener(eventName as string | symbol, listener);
+  });
+}
+
+/**
+ * Передает события EventTarget в эмиттер.
+ * Нативный слушатель добавляется, пока у эмиттера есть слушатели события, и удаляется через off, offEvent или offAll
+ * @param emitter Эмиттер
+ * @param target EventTarget
+ * @param eventNames Названия (type) передаваемых событий
+ * @param options Преобразование события, capture и passive
+ */
+export function fromEventTarget(
+  emitter: EventEmitter<any, any>,
+  target: EventTargetLike,
+  eventNames: string[],
+  options?: FromEventTargetOptions,
+): Subscription {
+  const transform = (options && options.transform) || ((event: any) => event);
+  const capture = !!(options && options.capture);
+  const passive = !!(options && options.passive);
+
+  return forwardNativeEvents(emitter, eventNames, eventName => {
+    const listener = (event: any) => emitter.emitSync(eventName, transform(event, eventName));
+    target.addEventListener(eventName as string, listener, { capture, passive });
+    return () => target.removeEventListener(eventName as string, listener, { capture });
+  });
+}
+
+export function toNodeEmitter(emitter: EventEmitter<any, any>): NodeEmitterAdapter {
+  return new NodeEmitterAdapter(emitter);
+}
+
+export function toEventTarget(emitter: EventEmitter<any, any>): EventTargetAdapter {
+  return new EventTargetAdapter(emitter);
+}
+
+/**
+ * Эмиттер в виде Node.js EventEmitter. Слушатели получают данные события одним аргументом.
+ * Слушатели, удаленные через off, offEvent или offAll эмиттера, удаляются и из адаптера
+ */
+export class NodeEmitterAdapter implements NodeEmitterLike {
+  private _emitter: EventEmitter<any, any>;
+  private _records = new Map<EventNameType, NativeListenerRecord<NativeListener>[]>();
+
+  constructor(emitter: EventEmitter<any, any>) {
+    this._emitter = emitter;
+  }
+
+  public on(eventName: string | symbol, listener: NativeListener): this {
+    return this.addListener(eventName, listener);
+  }
+
+  public addListener(eventName: string | symbol, listener: NativeListener): this {
+    this._addRecord(
+      eventName,
+      listener,
+      this._emitter.on(eventName, data => listener.call(this, data)),
+    );
+    return this;
+  }
+
+  public once(eventName: string | symbol, listener: NativeListener): this {
+    this._addRecord(
+      eventName,
+      listener,
+      this._emitter.once(eventName, data => listener.call(this, data)),
+    );
+    return this;
+  }
+
+  public off(eventName: string | symbol, listener: NativeListener): this {
+    return this.removeListener(eventName, listener);
+  }
+
+  /**
+   * Удаляет последнего добавленного слушателя с этим обратным вызовом
+   */
+  public removeListener(eventName: string | symbol, listener: NativeListener): this {
+    const record = [...this._getRecords(eventName)].reverse().find(m => m.listener === listener);
+    if (record) this._emitter.off(record.eventHash);
+    return this;
+  }
+
+  /**
+   * Удаляет слушателей, добавленных через адаптер (всех или только события eventName)
+   */
+  public removeAllListeners(eventName?: string | symbol): this {
+    const eventNames = eventName === undefined ? Array.from(this._records.keys()) : [eventName];
+    eventNames.forEach(currentEventName => this._getRecords(currentEventName).forEach(record => this._emitter.off(record.eventHash)));
+    return this;
+  }
+
+  /**
+   * Вызывает событие эмиттера (emitSync). Несколько аргументов передаются массивом
+   * @returns Были ли у события слушатели
+   */
+  public emit(eventName: string | symbol, ...args: any[]): boolean {
+    const hasListeners = this._emitter.getEvents(eventName).length > 0;
+    this._emitter.emitSync(eventName, args.length > 1 ? args : args[0]);
+    return hasListeners;
+  }
+
+  public listenerCount(eventName: string | symbol): number {
+    return this._getRecords(eventName).length;
+  }
+
+  public listeners(eventName: string | symbol): NativeListener[] {
+    return this._getRecords(eventName).map(m => m.listener);
+  }
+
+  public eventNames(): (string | symbol)[] {
+    return Array.from(this._records.keys()) as (string | symbol)[];
+  }
+
+  private _getRecords(eventName: EventNameType) {
+    return this._records.get(eventName) || [];
+  }
+
+  private _addRecord(eventName: EventNameType, listener: NativeListener, eventHash: string) {
+    if (!this._emitter.has(eventHash)) return;
+
+    this._records.set(eventName, [...this._getRecords(eventName), { eventHash, listener }]);
+    const triggerOffHash = this._emitter.triggerOff(eventHash, () => {
+      this._emitter.offTriggerOff(triggerOffHash);
+      const records = this._getRecords(eventName).filter(m => m.eventHash !== eventHash);
+      if (records.length > 0) this._records.set(eventName, records);
+      else this._records.delete(eventName);
+    });
+  }
+}
+
+/**
+ * Эмиттер в виде EventTarget. Данные, которые не являются Event, передаются слушателям как CustomEvent с detail.
+ * Слушатели, удаленные через off, offEvent или offAll эмиттера, удаляются и из адаптера
+ */
+export class EventTargetAdapter implements EventTargetLike {
+  private _emitter: EventEmitter<any, any>;
+  private _records = new Map<string, NativeListenerRecord<EventTargetListener>[]>();
+
+  constructor(emitter: EventEmitter<any, any>) {
+    this._emitter = emitter;
+  }
+
+  /**
+   * Добавляет слушателя. Повторное добавление того же слушателя с тем же capture игнорируется
+   * @param type Название события
+   * @param listener Функция или объект с handleEvent
+   * @param options capture, once и signal (удаление слушателя при отмене)
+   */
+  public addEventListener(type: string, listener: EventTargetListener, options?: boolean | AddEventListenerOptions): void {
+    if (!listener) return;
+    const capture = typeof options === 'boolean' ? options : !!(options && options.capture);
+    const once = typeof options === 'object' && !!options && !!options.once;
+    const signal = typeof options === 'object' && options ? options.signal : null;
+    if ((signal && signal.aborted) || this._findRecord(type, listener, capture)) return;
+
+    const callback = (data: any) => {
+      const event = toEvent(type, data);
+      if (typeof listener === 'function') listener.call(this, event);
+      else listener.handleEvent(event);
+    };
+    const eventHash = once ? this._emitter.once(type, callback) : this._emitter.on(type, callback);
+    if (!this._emitter.has(eventHash)) return;
+
+    const onAbort = () => this._emitter.off(eventHash);
+    if (signal) signal.addEventListener('abort', onAbort);
+    this._records.set(type, [...this._getRecords(type), { capture, eventHash, listener }]);
+
+    const triggerOffHash = this._emitter.triggerOff(eventHash, () => {
+      this._emitter.offTriggerOff(triggerOffHash);
+      if (signal) signal.removeEventListener('abort', onAbort);
+      const records = this._getRecords(type).filter(m => m.eventHash !== eventHash);
+      if (records.length > 0) this._records.set(type, records);
+      else this._records.delete(type);
+    });
+  }
+
+  public removeEventListener(type: string, listener: EventTargetListener, options?: boolean | EventListenerOptions): void {
+    const capture = typeof options === 'boolean' ? options : !!(options && options.capture);
+    const record = this._findRecord(type, listener, capture);
+    if (record) this._emitter.off(record.eventHash);
+  }
+
+  /**
+   * Вызывает событие эмиттера (emitSync) с названием event.type
+   * @returns false, если было отменено действие по умолчанию
+   */
+  public dispatchEvent(event: Event): boolean {
+    const defaultPrevented = this._emitter.emitSync(event.type, event);
+    return !defaultPrevented && !event.defaultPrevented;
+  }
+
+  private _getRecords(type: string) {
+    return this._records.get(type) || [];
+  }
+
+  private _findRecord(type: string, listener: EventTargetListener, capture: boolean) {
+    return this._getRecords(type).find(m => m.listener === listener && m.capture === capture);
+  }
+}
+
+/**
+ * Добавляет нативного слушателя события, когда у эмиттера появляется слушатель, и удаляет, когда последний слушатель удален
+ */
+function forwardNativeEvents(emitter: EventEmitter<any, any>, eventNames: EventNameType[], attach: (eventName: EventNameType) => () => void): Subscription {
+  const detachers = new Map<EventNameType, () => void>();
+
+  const attachEvent = (eventName: EventNameType) => {
+    if (!detachers.has(eventName)) detachers.set(eventName, attach(eventName));
+  };
+  const detachEvent = (eventName: EventNameType) => {
+    const detach = detachers.get(eventName);
+    detachers.delete(eventName);
+    if (detach) detach();
+  };
+  const detachAll = () => Array.from(detachers.keys()).forEach(detachEvent);
+  const sync = () => eventNames.filter(eventName => emitter.getEvents(eventName).length <= 0).forEach(detachEvent);
+
+  const middleware: SubscribeMiddleware = (context, next) => {
+    const result = next();
+    if (context.action === 'on') eventNames.filter(eventName => matchEventName(context.eventObject.eventName, eventName)).forEach(attachEvent);
+    return result;
+  };
+
+  emitter.useSubscribe(middleware);
+  const offEventHash = emitter.triggerOffEvent('**', sync);
+  const offAllHash = emitter.triggerOffAll(detachAll);
+  eventNames.filter(eventName => emitter.getEvents(eventName).length > 0).forEach(attachEvent);
+
+  return createSubscription(() => {
+    emitter.unuseSubscribe(middleware);
+    emitter.offTriggerOff(offEventHash);
+    emitter.offTriggerOff(offAllHash);
+    detachAll();
+  });
+}
+
+function toEvent(type: string, data: any) {
+  if (typeof Event !== 'undefined' && data instanceof Event) return data;
+  if (typeof CustomEvent !== 'undefined') return new CustomEvent(type, { detail: data });
+  return { detail: data, type };
+}
@@ -0,0 +1,230 @@
+import { EventContext, EventEmitter, EventNameType } from './eventEmitter';
+import { matchEventName } from './eventPattern';
+import { SubscribeMiddleware } from './middleware';
+
+/**
+ * Канал сообщений между двумя эмиттерами
+ */
+export interface BridgeChannel {
+  send(message: any): void;
+  /**
+   * Подписка на входящие сообщения. Возвращает функцию отписки
+   */
+  onMessage(listener: (message: any) => void): () => void;
+}
+
+/**
+ * MessagePort, BroadcastChannel, Worker (DOM) или MessagePort, Worker, parentPort (worker_threads)
+ */
+export interface PostMessageTarget {
+  postMessage(message: any): void;
+  addEventListener?(type: 'message', listener: (event: { data: any }) => void): void;
+  removeEventListener?(type: 'message', listener: (event: { data: any }) => void): void;
+  on?(type: 'message', listener: (message: any) => void): any;
+  off?(type: 'message', listener: (message: any) => void): any;
+  start?(): void;
+}
+
+export type BridgeTarget = BridgeChannel | PostMessageTarget;
+
+export type BridgeMessage =
+  | { type: 'connect' }
+  | { type: 'close' }
+  | { type: 'subscribe'; eventName: EventNameType }
+  | { type: 'unsubscribe'; eventName: EventNameType }
+  | { type: 'emit'; eventName: EventNameType; data: any; state: boolean };
+
+export interface BridgeSerializer {
+  serialize(message: BridgeMessage): any;
+  deserialize(payload: any): BridgeMessage;
+}
+
+export interface BridgeOptions {
+  /**
+   * Названия (или шаблоны) событий и состояний, которые можно передавать через мост в обе стороны (defaults ['**'])
+   */
+  events?: EventNameType[];
+  /**
+   * Преобразование сообщений перед отправкой и после получения (defaults без преобразования, для structured clone)
+   */
+  serializer?: BridgeSerializer;
+  /**
+   * Передать значения состояний другой стороне при подключении (defaults true)
+   */
+  syncStates?: boolean;
+}
+
+export interface EventBridge {
+  readonly closed: boolean;
+  /**
+   * Отключает мост: удаляет свои подписки на обеих сторонах и перестает слушать канал
+   */
+  close(): void;
+}
+
+export const jsonSerializer: BridgeSerializer = {
+  deserialize: payload => JSON.parse(payload),
+  serialize: message => JSON.stringify(message),
+};
+
+const identitySerializer: BridgeSerializer = {
+  deserialize: payload => payload,
+  serialize: message => message,
+};
+
+/**
+ * Приводит MessagePort, BroadcastChannel, Worker (DOM или worker_threads) к BridgeChannel
+ * @param target Канал или объект с postMessage
+ */
+export function toBridgeChannel(target: BridgeTarget): BridgeChannel {
+  if (typeof (target as BridgeChannel).send === 'function' && typeof (target as BridgeChannel).onMessage === 'function') return target as BridgeChannel;
+
+  const port = target as PostMessageTarget;
+  return {
+    onMessage: listener => {
+      if (typeof port.on === 'function') {
+        port.on('message', listener);
+        return () => port.off('message', listener);
+      }
+
+      const eventListener = (event: { data: any }) => listener(event.data);
+      port.addEventListener('message', eventListener);
+      if (typeof port.start === 'function') port.start();
+      return () => port.removeEventListener('message', eventListener);
+    },
+    send: message => port.postMessage(message),
+  };
+}
+
+/**
+ * Соединяет эмиттер с эмиттером на другой стороне канала.
+ * Каждая сторона сообщает другой названия событий, на которые у нее есть слушатели, и получает срабатывания только этих событий.
+ * Когда последний слушатель события удаляется (off, offEvent, offAll), подписка на другой стороне тоже удаляется
+ * @param emitter Локальный эмиттер
+ * @param target Канал сообщений
+ * @param options Разрешенные события, сериализация и синхронизация состояний
+ */
+export function createEventBridge(emitter: EventEmitter<any, any>, target: BridgeTarget, options?: BridgeOptions): EventBridge {
+  const channel = toBridgeChannel(target);
+  const allowedEvents = (options && options.events) || ['**'];
+  const serializer = (options && options.serializer) || identitySerializer;
+  const syncStates = !options || options.syncStates !== false;
+
+  const localListeners = new Map<EventNameType, Set<string>>();
+  const remoteSubscriptions = new Map<EventNameType, string>();
+  const forwardedContexts = new WeakSet<EventContext>();
+  let isRemoteEmit = false;
+  let closed = false;
+
+  const isAllowed = (eventName: EventNameType) => allowedEvents.some(allowedEvent => matchEventName(allowedEvent, eventName));
+
+  const send = (message: BridgeMessage) => {
+    if (!closed) channel.send(serializer.serialize(message));
+  };
+
+  const forward = (data: any, eventHash: string, eventName: EventNameType, context: EventContext) => {
+    if (isRemoteEmit || forwardedContexts.has(context) || !isAllowed(eventName)) return;
+    forwardedContexts.add(context);
+    send({ data, eventName, state: context.version !== undefined, type: 'emit' });
+  };
+
+  const addLocalListener = (eventName: EventNameType, eventHash: string) => {
+    const eventHashes = localListeners.get(eventName) || new Set<string>();
+    eventHashes.add(eventHash);
+    localListeners.set(eventName, eventHashes);
+    if (eventHashes.size === 1) send({ eventName, type: 'subscribe' });
+  };
+
+  const removeLocalListener = (eventName: EventNameType, eventHash: string) => {
+    const eventHashes = localListeners.get(eventName);
+    if (!eventHashes || !eventHashes.delete(eventHash) || eventHashes.size > 0) return;
+    localListeners.delete(eventName);
+    send({ eventName, type: 'unsubscribe' });
+  };
+
+  const subscribeMiddleware: SubscribeMiddleware = (context, next) => {
+    const result = next();
+    const { eventName, eventHash, callback } = context.eventObject;
+    if (callback === forward || !isAllowed(eventName)) return result;
+
+    if (context.action === 'on') addLocalListener(eventName, eventHash);
+    else removeLocalListener(eventName, eventHash);
+    return result;
+  };
+
+  const unsubscribeRemote = (eventName: EventNameType) => {
+    const eventHash = remoteSubscriptions.get(eventName);
+    remoteSubscriptions.delete(eventName);
+    if (eventHash && emitter.has(eventHash)) emitter.off(eventHash);
+  };
+
+  const sendSync = () => {
+    localListeners.forEach((eventHashes, eventName) => send({ eventName, type: 'subscribe' }));
+    if (!syncStates) return;
+    emitter
+      .getStateNames()
+      .filter(stateName => isAllowed(stateName))
+      .forEach(stateName => send({ data: emitter.getState(stateName), eventName: stateName, state: true, type: 'emit' }));
+  };
+
+  const receive = (payload: any) => {
+    let message: BridgeMessage = null;
+    try {
+      message = serializer.deserialize(payload);
+    } catch (err) {
+      return;
+    }
+    if (closed || !message) return;
+
+    if (message.type === 'connect') return sendSync();
+    if (message.type === 'close') return Array.from(remoteSubscriptions.keys()).forEach(unsubscribeRemote);
+    if (message.type === 'unsubscribe') return unsubscribeRemote(message.eventName);
+    if (!isAllowed(message.eventName)) return;
+
+    if (message.type === 'subscribe' && !remoteSubscriptions.has(message.eventName)) {
+      remoteSubscriptions.set(message.eventName, emitter.on(message.eventName, forward));
+    }
+    if (message.type === 'emit') {
+      isRemoteEmit = true;
+      try {
+        if (message.state) emitter.emitStateSync(message.eventName, message.data);
+        else emitter.emitSync(message.eventName, message.data);
+      } catch (err) {
+        // IGNORE
+      } finally {
+        isRemoteEmit = false;
+      }
+    }
+  };
+
+  emitter
+    .getEventNames()
+    .filter(eventName => isAllowed(eventName))
+    .forEach(eventName => {
+      const eventHashes = emitter
+        .getEvents(eventName)
+        .filter(m => m.eventName === eventName)
+        .map(m => m.eventHash);
+      localListeners.set(eventName, new Set(eventHashes));
+    });
+  emitter.useSubscribe(subscribeMiddleware);
+  const offMessage = channel.onMessage(receive);
+  sendSync();
+  send({ type: 'connect' });
+
+  return {
+    get closed() {
+      return closed;
+    },
+    close: () => {
+      if (closed) return;
+      send({ type: 'close' });
+      closed = true;
+
+      offMessage();
+      emitter.unuseSubscribe(subscribeMiddleware);
+      Array.from(remoteSubscriptions.keys()).forEach(unsubscribeRemote);
+      localListeners.clear();
+    },
+  };
+}
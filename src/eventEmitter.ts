@@ -1,7 +1,54 @@
-import LINQ from '@berish/linq';
 import guid from 'berish-guid';
+import { EmitterAggregateError, ErrorPolicyType, ListenerError, ListenerErrorPhaseType } from './errors';
+import {
+  EventTargetAdapter,
+  EventTargetLike,
+  fromEventTarget,
+  FromEventTargetOptions,
+  fromNodeEmitter,
+  FromNodeEmitterOptions,
+  NodeEmitterAdapter,
+  NodeEmitterLike,
+  toEventTarget,
+  toNodeEmitter,
+} from './eventAdapters';
+import { BridgeOptions, BridgeTarget, createEventBridge, EventBridge } from './eventBridge';
+import { createEventInspector, EventInspector, InspectOptions, InspectorHook, InspectorRecord } from './eventInspector';
+import { createEventIterator, IterateOptions } from './eventIterator';
+import { createEventObservable, EventObservable, FromObservableOptions, pipeObservable, Subscribable, Unsubscribable } from './eventObservable';
+import { EVENT_NAME_DELIMITER, EventPattern, EventPatternData, EventPatternKeys, isEventPattern, matchEventName } from './eventPattern';
+import { RequestHandler, RequestHandlerExistsError, RequestOptions, RequestPayload, RequestResult, sendRequest } from './eventRequest';
+import { EventStore, EventStoreLike } from './eventStore';
+import { WaitAnyResult, waitEvents, WaitForOptions, WaitTimeoutError } from './eventWait';
+import {
+  AsyncSubscribeMiddlewareError,
+  composeMiddleware,
+  EmitMiddleware,
+  EmitMiddlewareContext,
+  EmitMode,
+  SubscribeMiddleware,
+  SubscribeMiddlewareContext,
+} from './middleware';
+import { createOwnerRegistry } from './ownerListeners';
+import { BatchOptions, createRateControlledCallback, hasRateControl, ListenerArgs, RateControlledCallback, RateControlOptions } from './rateControl';
+import {
+  getSchemaVersion,
+  migrateStateSnapshot,
+  persistStates,
+  PersistStatesOptions,
+  StatePersistence,
+  StatePersistenceAdapter,
+  StateSchemaOptions,
+  StateSnapshot,
+} from './statePersistence';
+import { createSubscription, Subscription } from './subscription';
 
-export type SubscribeType<Data, Result = void | Promise<void>> = (data: Data, eventHash: string) => Result;
+export type SubscribeType<Data, Result = void | Promise<void>, Name extends EventNameType = EventNameType> = (
+  data: Data,
+  eventHash: string,
+  eventName: Name,
+  context: EventContext<Name>,
+) => Result;
 
 export type EventNameType = string | number | symbol;
 
@@ -14,70 +61,686 @@ export interface EventObject<Data, Result = void | Promise<void>> {
   eventName: EventNameType;
   eventHash: string;
   callback: SubscribeType<Data, Result>;
+  priority?: number;
+  /**
+   * Исходный обратный вызов, если callback является оберткой (debounce, throttle, batch, distinct)
+   */
+  listener?: SubscribeType<any, any>;
+  /**
+   * Название не является шаблоном (options.exact)
+   */
+  exact?: boolean;
+  /**
+   * Параметры подписки, если callback является оберткой. По ним createNewEmitter создает обертку заново
+   */
+  options?: SubscribeOptions;
+}
+
+export interface SubscribeOptions extends RateControlOptions {
+  /**
+   * Приоритет слушателя. Слушатели с большим приоритетом вызываются раньше (defaults 0)
+   */
+  priority?: number;
+  /**
+   * Добавить слушателя перед остальными слушателями с тем же приоритетом
+   */
+  prepend?: boolean;
+  /**
+   * Удалить слушателя после указанного количества вызовов. Воспроизведение состояния при подписке считается вызовом
+   */
+  times?: number;
+  /**
+   * Удалить слушателя, когда условие выполнится. Срабатывание, на котором условие выполнилось, слушатель не получает
+   */
+  until?: (data: any, eventName: EventNameType) => boolean;
+  /**
+   * Владелец слушателя. Слушатель удаляется, когда владелец удален сборщиком мусора (WeakRef и FinalizationRegistry),
+   * или через offOwner. Эмиттер не хранит сильных ссылок на владельца и обратный вызов
+   */
+  owner?: object;
+  /**
+   * Считать название точным, даже если оно содержит `*`: слушатель получает только события с таким же названием
+   */
+  exact?: boolean;
+}
+
+export type BatchSubscribeOptions = SubscribeOptions & { batch: BatchOptions };
+
+/**
+ * Контекст срабатывания события, общий для всех слушателей одного вызова emit
+ */
+export interface EventContext<Name extends EventNameType = EventNameType> {
+  eventName: Name;
+  defaultPrevented: boolean;
+  propagationStopped: boolean;
+  /**
+   * Версия состояния, если событие является изменением состояния
+   */
+  version?: number;
+  /**
+   * Не вызывать оставшихся слушателей
+   */
+  stopPropagation(): void;
+  /**
+   * Отменить действие по умолчанию. Результат emit будет равен true
+   */
+  preventDefault(): void;
 }
 
 export interface StateObject<Data> {
   stateName: EventNameType;
   data: Data;
+  /**
+   * Номер изменения состояния. Возрастает с каждым вызовом emitStateSync/emitStateAsync в пределах эмиттера
+   */
+  version: number;
+  /**
+   * Время изменения состояния (Date.now())
+   */
+  timestamp: number;
+}
+
+export interface StateHistoryOptions {
+  /**
+   * Сколько последних значений состояния хранить (defaults 1)
+   */
+  size?: number;
+  /**
+   * Сколько миллисекунд хранить значения состояния. Последнее значение хранится всегда (defaults Infinity)
+   */
+  time?: number;
+}
+
+export interface StateSubscribeOptions extends SubscribeOptions {
+  /**
+   * Сколько последних значений из истории состояния передать слушателю при подписке (defaults 1)
+   */
+  replay?: number;
+  /**
+   * Передать слушателю при подписке только значения с версией больше указанной
+   */
+  sinceVersion?: number;
+}
+
+/**
+ * Значения событий или состояний по списку их названий
+ */
+export type StateValues<StateMap, StateNames extends any[]> = {
+  [K in keyof StateNames]: StateNames[K] extends keyof StateMap ? StateMap[StateNames[K]] : never;
+};
+
+export interface ComputeStateOptions<Data> {
+  /**
+   * Сравнение нового значения с текущим. Если значения равны, то состояние не изменяется (defaults ===)
+   */
+  comparer?: (previous: Data, next: Data) => boolean;
 }
 
-export class EventEmitter<EventMap extends EmitterMapBaseType = EmitterMapBaseType, StateMap extends EmitterMapBaseType = EmitterMapBaseType> {
-  protected _events: EventObject<any>[] = [];
-  protected _offTriggers: EventObject<any>[] = [];
+export type ErrorHandlerType = (error: ListenerError, eventHash: string) => void;
+
+export interface EventEmitterOptions {
+  /**
+   * Политика обработки ошибок слушателей и обратных вызовов triggerOff (defaults 'throw')
+   */
+  errorPolicy?: ErrorPolicyType;
+  /**
+   * Обработчик ошибок слушателей. Аналогичен подписке через onError
+   */
+  onError?: ErrorHandlerType;
+  /**
+   * История значений каждого состояния (defaults { size: 1 }). Для отдельного состояния настраивается через setStateHistory
+   */
+  stateHistory?: StateHistoryOptions;
+}
+
+export class EventEmitter<
+  EventMap extends EmitterMapBaseType = EmitterMapBaseType,
+  StateMap extends EmitterMapBaseType = EmitterMapBaseType,
+  RequestMap extends EmitterMapBaseType = EmitterMapBaseType,
+> {
+  protected _eventStore: EventStoreLike = new EventStore();
+  protected _offTriggerStore: EventStoreLike = new EventStore();
+  protected _offEventTriggerStore: EventStoreLike = new EventStore();
   protected _states: StateObject<any>[] = [];
+  protected _stateHistories = new Map<EventNameType, StateObject<any>[]>();
+  protected _stateHistoryOptions = new Map<EventNameType, StateHistoryOptions>();
+  protected _stateVersion = 0;
+  protected _computedStates = new Map<string, string[]>();
+  protected _parent: EventEmitter<any, any> = null;
+  protected _namespace: string = null;
+  protected _children = new Map<string, EventEmitter<any, any>>();
+  protected _traceHooks: InspectorHook[] = [];
+  protected _middlewares: EmitMiddleware[] = [];
+  protected _subscribeMiddlewares: SubscribeMiddleware[] = [];
+  protected _errorHandlers: EventObject<ListenerError>[] = [];
+  protected _ownerRegistry = createOwnerRegistry(eventHash => this._offOwned(eventHash));
+  protected _requestHandlers = new Map<EventNameType, { eventHash: string; handler: RequestHandler<any, any, any> }>();
+  protected _options: EventEmitterOptions;
+
+  constructor(options?: EventEmitterOptions) {
+    this._options = options || {};
+  }
+
+  /**
+   * Копия списка всех слушателей в порядке вызова. Изменения массива не влияют на эмиттер (см. _eventStore)
+   */
+  protected get _events(): EventObject<any>[] {
+    return this._eventStore.values();
+  }
+
+  protected set _events(eventObjects: EventObject<any>[]) {
+    this._eventStore.clear();
+    eventObjects.forEach(eventObject => this._eventStore.add(eventObject));
+  }
+
+  public get errorPolicy(): ErrorPolicyType {
+    return this._options.errorPolicy || 'throw';
+  }
+
+  public set errorPolicy(errorPolicy: ErrorPolicyType) {
+    this._options = { ...this._options, errorPolicy };
+  }
 
+  /**
+   * Новый эмиттер с копией слушателей. Обертки times, until и контроля частоты создаются заново (счетчики начинаются с нуля),
+   * слушатели с owner не копируются
+   * @param filter Отбор копируемых слушателей
+   */
   public createNewEmitter(filter?: (eventObjects: EventObject<any>[]) => EventObject<any> | EventObject<any>[]): this {
-    const cls: new () => this = this.constructor as any;
-    const emitter = new cls();
+    const cls: new (options?: EventEmitterOptions) => this = this.constructor as any;
+    const emitter = new cls(this._options);
     const newEvents = filter ? filter(this._events) : [...this._events];
-    emitter._events = Array.isArray(newEvents) ? newEvents : [newEvents];
+    emitter._events = (Array.isArray(newEvents) ? newEvents : [newEvents])
+      .filter(m => !m.options || !!m.listener)
+      .map(m => (m.options ? emitter._copyListener(m) : m));
     return emitter;
   }
 
+  public get parent(): EventEmitter<any, any> {
+    return this._parent;
+  }
+
+  public get namespace(): string {
+    return this._namespace;
+  }
+
+  /**
+   * Дочерний эмиттер. События дочернего эмиттера после его слушателей всплывают в родительский эмиттер под названием `namespace.eventName`
+   * (если слушатель не вызвал stopPropagation). Дочерний эмиттер наследует состояния родителя, если не переопределяет их своими.
+   * Повторный вызов с тем же namespace возвращает тот же эмиттер, пока он не уничтожен через dispose
+   * @param namespace Префикс названий событий дочернего эмиттера в родительском эмиттере
+   */
+  public child<ChildEventMap extends EmitterMapBaseType = EventMap, ChildStateMap extends EmitterMapBaseType = StateMap>(
+    namespace: string,
+  ): EventEmitter<ChildEventMap, ChildStateMap> {
+    if (this._children.has(namespace)) return this._children.get(namespace);
+
+    const cls: new (options?: EventEmitterOptions) => EventEmitter<ChildEventMap, ChildStateMap> = this.constructor as any;
+    const emitter = new cls(this._options);
+    emitter._parent = this;
+    emitter._namespace = namespace;
+    this._children.set(namespace, emitter);
+    return emitter;
+  }
+
+  public getChildren(): EventEmitter<any, any>[] {
+    return Array.from(this._children.values());
+  }
+
+  /**
+   * Уничтожает эмиттер вместе со всеми дочерними эмиттерами: удаляет слушателей через offAll (с вызовом triggerOff), состояния и связь с родителем.
+   * Ошибки удаления не прерывают уничтожение, первая из них выбрасывается в конце
+   */
+  public dispose(): void {
+    const errors: any[] = [];
+    const run = (teardown: () => void) => {
+      try {
+        teardown();
+      } catch (err) {
+        errors.push(err);
+      }
+    };
+
+    this._children.forEach(child => run(() => child.dispose()));
+    run(() => this.offAll());
+    this._states = [];
+    this._stateHistories.clear();
+    this._requestHandlers.clear();
+    if (this._parent && this._parent._children.get(this._namespace) === this) this._parent._children.delete(this._namespace);
+    this._parent = null;
+    if (errors.length > 0) throw errors[0];
+  }
+
+  /**
+   * Подписка на ошибки слушателей и обратных вызовов triggerOff.
+   * Обработчик получает ListenerError с названием события и идентификатором слушателя, в котором произошла ошибка
+   * (null для ошибки асинхронного middleware синхронного emit)
+   * @param callback Обработчик ошибки
+   */
+  public onError(callback: ErrorHandlerType): string {
+    const eventHash = `error_${guid.guid()}`;
+    this._errorHandlers.push({ eventName: 'error', eventHash, callback });
+
+    return eventHash;
+  }
+
+  public offError(eventHash: string): void {
+    this._errorHandlers = this._errorHandlers.filter(m => m.eventHash !== eventHash);
+  }
+
+  /**
+   * Добавляет middleware, через которое проходит каждый вызов emit (`emitSync`, `emitAsync`, `emitStateSync`, `emitStateAsync`, `emitCollect` и т.д.).
+   * Middleware может просмотреть, изменить, отложить или отменить (не вызвав `next`) срабатывание события
+   * @param middleware Middleware в стиле Koa
+   */
+  public use(middleware: EmitMiddleware): this {
+    this._middlewares = [...this._middlewares, middleware];
+    return this;
+  }
+
+  public unuse(middleware: EmitMiddleware): this {
+    this._middlewares = this._middlewares.filter(m => m !== middleware);
+    return this;
+  }
+
+  /**
+   * Добавляет middleware, через которое проходит каждая регистрация (`on`) и удаление (`off`, `offEvent`, `offAll`) слушателя.
+   * Если middleware не вызывает `next`, то слушатель не регистрируется (или не удаляется).
+   * `next` нужно вызвать синхронно, иначе выбрасывается AsyncSubscribeMiddlewareError
+   * @param middleware Middleware в стиле Koa
+   */
+  public useSubscribe(middleware: SubscribeMiddleware): this {
+    this._subscribeMiddlewares = [...this._subscribeMiddlewares, middleware];
+    return this;
+  }
+
+  public unuseSubscribe(middleware: SubscribeMiddleware): this {
+    this._subscribeMiddlewares = this._subscribeMiddlewares.filter(m => m !== middleware);
+    return this;
+  }
+
   public getEvents<EventName extends keyof EventMap, Result = void | Promise<void>>(eventName: EventName): EventObject<EventMap[EventName], Result>[];
   public getEvents<StateName extends keyof StateMap, Result = void | Promise<void>>(stateName: StateName): EventObject<StateMap[StateName], Result>[];
   public getEvents(eventName: any): EventObject<any>[] {
-    return this._events.filter(m => m.eventName === eventName);
+    return this._eventStore.match(eventName);
   }
 
   public has(eventHash: string): boolean {
-    return this._events.some(m => m.eventHash === eventHash);
+    return this._eventStore.has(eventHash);
   }
 
-  public hasState<StateName extends keyof StateMap>(stateName: StateName) {
-    return this._states.some(m => m.stateName === stateName);
+  /**
+   * Названия (и шаблоны), под которыми зарегистрированы слушатели
+   */
+  public getEventNames(): EventNameType[] {
+    return this._eventStore.getNames();
   }
 
-  public hasEvent(eventName: keyof EventMap): boolean {
-    return this._events.some(m => m.eventName === eventName);
+  /**
+   * Названия собственных и унаследованных состояний
+   */
+  public getStateNames(): (keyof StateMap)[] {
+    return this._getStates().map(m => m.stateName as keyof StateMap);
+  }
+
+  public hasState<StateName extends keyof StateMap>(stateName: StateName): boolean {
+    return this._states.some(m => m.stateName === stateName) || (!!this._parent && this._parent.hasState(stateName));
+  }
+
+  public hasEvent(eventName: keyof EventMap): boolean;
+  public hasEvent<Pattern extends string>(pattern: EventPattern<EventMap, Pattern>): boolean;
+  public hasEvent(eventName: any): boolean {
+    return this._eventStore.hasCover(eventName);
   }
 
   public hasCallback(callback: SubscribeType<any>): boolean {
-    return this._events.some(m => m.callback === callback);
+    return this._eventStore.some(m => m.callback === callback || m.listener === callback);
   }
 
   public getState<StateName extends keyof StateMap>(stateName: StateName): StateMap[StateName] {
-    const item = this._states.find(m => m.stateName === stateName);
+    const item = this._getStates().find(m => m.stateName === stateName);
     return item && item.data;
   }
 
   /**
-   * Прослушивание события
-   * @param eventName Название события
+   * Значения состояния от старых к новым (последнее значение совпадает с getState). Для унаследованного состояния - история родительского эмиттера
+   * @param stateName Название состояния
+   */
+  public getStateHistory<StateName extends keyof StateMap>(stateName: StateName): StateObject<StateMap[StateName]>[] {
+    return this._pruneStateHistory(stateName);
+  }
+
+  /**
+   * Настройка истории значений состояния. Переопределяет options.stateHistory эмиттера для этого состояния
+   * @param stateName Название состояния
+   * @param options Количество значений и/или время их хранения
+   */
+  public setStateHistory<StateName extends keyof StateMap>(stateName: StateName, options: StateHistoryOptions): this {
+    this._stateHistoryOptions.set(stateName, options);
+    this._pruneStateHistory(stateName);
+    return this;
+  }
+
+  /**
+   * Прослушивание события.
+   * Название может быть шаблоном: `*` совпадает с одним сегментом, `**` - с любым количеством сегментов (`user.*`, `*.deleted`, `**`)
+   * @param eventName Название (или шаблон) события
+   * @param callback Обратный вызов. Третьим аргументом получает конкретное название сработавшего события, четвертым - контекст срабатывания.
+   * Результат обратного вызова возвращается через `emitCollect`, `emitSerial`, `emitWaterfall` и `emitFirst`
+   * @param options Приоритет и порядок вызова слушателя, ограничение частоты вызова (debounce, throttle, batch, distinct).
+   * С batch слушатель получает массив данных. Отложенные вызовы отменяются при удалении слушателя
+   */
+  public on<EventName extends keyof EventMap, Result = void | Promise<void>>(
+    eventName: EventName,
+    callback: SubscribeType<EventMap[EventName][], Result, EventName>,
+    options: BatchSubscribeOptions,
+  ): string;
+  public on<Pattern extends string, Result = void | Promise<void>>(
+    pattern: EventPattern<EventMap, Pattern>,
+    callback: SubscribeType<EventPatternData<EventMap, Pattern>[], Result, EventPatternKeys<EventMap, Pattern>>,
+    options: BatchSubscribeOptions,
+  ): string;
+  public on<StateName extends keyof StateMap, Result = void | Promise<void>>(
+    eventName: StateName,
+    callback: SubscribeType<StateMap[StateName][], Result, StateName>,
+    options: BatchSubscribeOptions,
+  ): string;
+  public on<EventName extends keyof EventMap, Result = void | Promise<void>>(
+    eventName: EventName,
+    callback: SubscribeType<EventMap[EventName], Result, EventName>,
+    options?: SubscribeOptions,
+  ): string;
+  public on<Pattern extends string, Result = void | Promise<void>>(
+    pattern: EventPattern<EventMap, Pattern>,
+    callback: SubscribeType<EventPatternData<EventMap, Pattern>, Result, EventPatternKeys<EventMap, Pattern>>,
+    options?: SubscribeOptions,
+  ): string;
+  public on<StateName extends keyof StateMap, Result = void | Promise<void>>(
+    eventName: StateName,
+    callback: SubscribeType<StateMap[StateName], Result, StateName>,
+    options?: SubscribeOptions,
+  ): string;
+  public on(eventName: EventNameType, callback: SubscribeType<any, any, any>, options?: SubscribeOptions): string {
+    return this._subscribe(eventName, callback, options, eventObject =>
+      this._getStates().filter(m => (eventObject.exact ? m.stateName === eventObject.eventName : matchEventName(eventObject.eventName, m.stateName))),
+    );
+  }
+
+  /**
+   * Прослушивание состояния с воспроизведением его истории.
+   * При подписке слушатель получает последние `replay` значений (с версией больше `sinceVersion`), затем - новые значения
+   * @param stateName Название состояния
+   * @param callback Обратный вызов. Версия значения доступна в контексте срабатывания
+   * @param options Сколько значений истории воспроизвести, а также приоритет и порядок вызова слушателя
+   */
+  public onState<StateName extends keyof StateMap, Result = void | Promise<void>>(
+    stateName: StateName,
+    callback: SubscribeType<StateMap[StateName], Result, StateName>,
+    options?: StateSubscribeOptions,
+  ): string {
+    const replay = options && options.replay >= 0 ? options.replay : 1;
+    const sinceVersion = options && typeof options.sinceVersion === 'number' ? options.sinceVersion : -Infinity;
+
+    return this._subscribe(stateName, callback, options, () => {
+      const stateEvents = this._pruneStateHistory(stateName).filter(m => m.version > sinceVersion);
+      return replay > 0 ? stateEvents.slice(-replay) : [];
+    });
+  }
+
+  /**
+   * Прослушивание события, как `on`, но возвращает объект подписки вместо хэша.
+   * Подписку можно удалить через `unsubscribe`, объявление `using` или `SubscriptionScope`
+   * @param eventName Название (или шаблон) события
    * @param callback Обратный вызов
+   * @param options Приоритет и порядок вызова слушателя, ограничение частоты вызова
    */
-  public on<EventName extends keyof EventMap>(eventName: EventName, callback: SubscribeType<EventMap[EventName]>): string;
-  public on<StateName extends keyof StateMap>(eventName: StateName, callback: SubscribeType<StateMap[StateName]>): string;
-  public on(eventName: string, callback: SubscribeType<any>): string {
-    const eventHash = guid.guid();
-    this._events.push({ eventName, eventHash, callback });
+  public subscribe<EventName extends keyof EventMap, Result = void | Promise<void>>(
+    eventName: EventName,
+    callback: SubscribeType<EventMap[EventName][], Result, EventName>,
+    options: BatchSubscribeOptions,
+  ): Subscription;
+  public subscribe<Pattern extends string, Result = void | Promise<void>>(
+    pattern: EventPattern<EventMap, Pattern>,
+    callback: SubscribeType<EventPatternData<EventMap, Pattern>[], Result, EventPatternKeys<EventMap, Pattern>>,
+    options: BatchSubscribeOptions,
+  ): Subscription;
+  public subscribe<StateName extends keyof StateMap, Result = void | Promise<void>>(
+    eventName: StateName,
+    callback: SubscribeType<StateMap[StateName][], Result, StateName>,
+    options: BatchSubscribeOptions,
+  ): Subscription;
+  public subscribe<EventName extends keyof EventMap, Result = void | Promise<void>>(
+    eventName: EventName,
+    callback: SubscribeType<EventMap[EventName], Result, EventName>,
+    options?: SubscribeOptions,
+  ): Subscription;
+  public subscribe<Pattern extends string, Result = void | Promise<void>>(
+    pattern: EventPattern<EventMap, Pattern>,
+    callback: SubscribeType<EventPatternData<EventMap, Pattern>, Result, EventPatternKeys<EventMap, Pattern>>,
+    options?: SubscribeOptions,
+  ): Subscription;
+  public subscribe<StateName extends keyof StateMap, Result = void | Promise<void>>(
+    eventName: StateName,
+    callback: SubscribeType<StateMap[StateName], Result, StateName>,
+    options?: SubscribeOptions,
+  ): Subscription;
+  public subscribe(eventName: any, callback: SubscribeType<any, any, any>, options?: SubscribeOptions): Subscription {
+    const eventHash = this.on(eventName, callback, options);
+    return createSubscription(
+      () => {
+        if (this.has(eventHash)) this.off(eventHash);
+      },
+      () => !this.has(eventHash),
+    );
+  }
 
-    if (this.hasState(eventName)) {
-      const stateEvent = LINQ.from(this._states).first(m => m.stateName === eventName);
-      callback(stateEvent.data, eventHash);
-    }
+  /**
+   * Прослушивание только первого срабатывания события. Для состояния первым срабатыванием является воспроизведение текущего значения
+   * @param eventName Название (или шаблон) события
+   * @param callback Обратный вызов
+   * @param options Приоритет и порядок вызова слушателя
+   */
+  public once<EventName extends keyof EventMap, Result = void | Promise<void>>(
+    eventName: EventName,
+    callback: SubscribeType<EventMap[EventName], Result, EventName>,
+    options?: SubscribeOptions,
+  ): string;
+  public once<Pattern extends string, Result = void | Promise<void>>(
+    pattern: EventPattern<EventMap, Pattern>,
+    callback: SubscribeType<EventPatternData<EventMap, Pattern>, Result, EventPatternKeys<EventMap, Pattern>>,
+    options?: SubscribeOptions,
+  ): string;
+  public once<StateName extends keyof StateMap, Result = void | Promise<void>>(
+    eventName: StateName,
+    callback: SubscribeType<StateMap[StateName], Result, StateName>,
+    options?: SubscribeOptions,
+  ): string;
+  public once(eventName: any, callback: SubscribeType<any, any, any>, options?: SubscribeOptions): string {
+    return this.many(eventName, 1, callback, options);
+  }
 
-    return eventHash;
+  /**
+   * Прослушивание первых `count` срабатываний события. Воспроизведение состояния при подписке считается срабатыванием
+   * @param eventName Название (или шаблон) события
+   * @param count Количество срабатываний (положительное число)
+   * @param callback Обратный вызов
+   * @param options Приоритет и порядок вызова слушателя
+   */
+  public many<EventName extends keyof EventMap, Result = void | Promise<void>>(
+    eventName: EventName,
+    count: number,
+    callback: SubscribeType<EventMap[EventName], Result, EventName>,
+    options?: SubscribeOptions,
+  ): string;
+  public many<Pattern extends string, Result = void | Promise<void>>(
+    pattern: EventPattern<EventMap, Pattern>,
+    count: number,
+    callback: SubscribeType<EventPatternData<EventMap, Pattern>, Result, EventPatternKeys<EventMap, Pattern>>,
+    options?: SubscribeOptions,
+  ): string;
+  public many<StateName extends keyof StateMap, Result = void | Promise<void>>(
+    eventName: StateName,
+    count: number,
+    callback: SubscribeType<StateMap[StateName], Result, StateName>,
+    options?: SubscribeOptions,
+  ): string;
+  public many(eventName: any, count: number, callback: SubscribeType<any, any, any>, options?: SubscribeOptions): string {
+    if (!(count > 0)) throw new RangeError(`Listener count must be positive, got ${count}`);
+    return this.on(eventName, callback, { ...options, times: count });
+  }
+
+  /**
+   * Прослушивание события, пока не выполнится условие. Срабатывание, на котором условие выполнилось, слушатель не получает.
+   * Воспроизведение состояния при подписке проверяется так же, как обычное срабатывание
+   * @param eventName Название (или шаблон) события
+   * @param callback Обратный вызов
+   * @param predicate Условие удаления слушателя
+   * @param options Приоритет и порядок вызова слушателя
+   */
+  public onUntil<EventName extends keyof EventMap, Result = void | Promise<void>>(
+    eventName: EventName,
+    callback: SubscribeType<EventMap[EventName], Result, EventName>,
+    predicate: (data: EventMap[EventName], eventName: EventName) => boolean,
+    options?: SubscribeOptions,
+  ): string;
+  public onUntil<Pattern extends string, Result = void | Promise<void>>(
+    pattern: EventPattern<EventMap, Pattern>,
+    callback: SubscribeType<EventPatternData<EventMap, Pattern>, Result, EventPatternKeys<EventMap, Pattern>>,
+    predicate: (data: EventPatternData<EventMap, Pattern>, eventName: EventPatternKeys<EventMap, Pattern>) => boolean,
+    options?: SubscribeOptions,
+  ): string;
+  public onUntil<StateName extends keyof StateMap, Result = void | Promise<void>>(
+    eventName: StateName,
+    callback: SubscribeType<StateMap[StateName], Result, StateName>,
+    predicate: (data: StateMap[StateName], eventName: StateName) => boolean,
+    options?: SubscribeOptions,
+  ): string;
+  public onUntil(
+    eventName: any,
+    callback: SubscribeType<any, any, any>,
+    predicate: (data: any, eventName: any) => boolean,
+    options?: SubscribeOptions,
+  ): string {
+    return this.on(eventName, callback, { ...options, until: predicate });
+  }
+
+  /**
+   * Возвращает асинхронный итератор по данным срабатываний события (`for await`).
+   * Если событие является состоянием, то первым значением возвращается текущее состояние.
+   * Подписка удаляется, когда перебор завершается
+   * @param eventName Название (или шаблон) события
+   * @param options Настройки буфера непрочитанных событий
+   */
+  public iterate<EventName extends keyof EventMap>(eventName: EventName, options?: IterateOptions): AsyncIterableIterator<EventMap[EventName]>;
+  public iterate<Pattern extends string>(
+    pattern: EventPattern<EventMap, Pattern>,
+    options?: IterateOptions,
+  ): AsyncIterableIterator<EventPatternData<EventMap, Pattern>>;
+  public iterate<StateName extends keyof StateMap>(stateName: StateName, options?: IterateOptions): AsyncIterableIterator<StateMap[StateName]>;
+  public iterate(eventName: any, options?: IterateOptions): AsyncIterableIterator<any> {
+    return createEventIterator(this, eventName, options);
+  }
+
+  /**
+   * Возвращает Observable (TC39, RxJS) по данным срабатываний события.
+   * Подписка на Observable соответствует on, отписка - off. Если событие является состоянием, то первым значением приходит текущее состояние
+   * @param eventName Название (или шаблон) события
+   */
+  public observe<EventName extends keyof EventMap>(eventName: EventName): EventObservable<EventMap[EventName]>;
+  public observe<Pattern extends string>(pattern: EventPattern<EventMap, Pattern>): EventObservable<EventPatternData<EventMap, Pattern>>;
+  public observe<StateName extends keyof StateMap>(stateName: StateName): EventObservable<StateMap[StateName]>;
+  public observe(eventName: any): EventObservable<any> {
+    return createEventObservable(this, eventName);
+  }
+
+  /**
+   * Передает значения Observable (TC39, RxJS) в emitAsync (или emitStateAsync, если указан options.state)
+   * @param eventName Название события
+   * @param source Observable
+   * @param options Настройки передачи
+   * @returns Подписка на source
+   */
+  public fromObservable<EventName extends keyof EventMap>(
+    eventName: EventName,
+    source: Subscribable<EventMap[EventName]>,
+    options?: FromObservableOptions,
+  ): Unsubscribable;
+  public fromObservable<StateName extends keyof StateMap>(
+    stateName: StateName,
+    source: Subscribable<StateMap[StateName]>,
+    options?: FromObservableOptions,
+  ): Unsubscribable;
+  public fromObservable(eventName: any, source: Subscribable<any>, options?: FromObservableOptions): Unsubscribable {
+    return pipeObservable(this, eventName, source, options);
+  }
+
+  /**
+   * Соединяет эмиттер с эмиттером на другой стороне канала (MessagePort, worker_threads, BroadcastChannel или { send, onMessage }).
+   * Срабатывания событий передаются на сторону, где на них есть слушатели
+   * @param target Канал сообщений
+   * @param options Разрешенные события, сериализация и синхронизация состояний
+   */
+  public bridge(target: BridgeTarget, options?: BridgeOptions): EventBridge {
+    return createEventBridge(this, target, options);
+  }
+
+  /**
+   * Передает события Node.js EventEmitter в эмиттер, пока у эмиттера есть их слушатели
+   * @param source Node.js EventEmitter
+   * @param eventNames Названия передаваемых событий
+   * @param options Преобразование аргументов нативного события в данные
+   * @returns Подписка, удаление которой отключает передачу
+   */
+  public fromNodeEmitter(source: NodeEmitterLike, eventNames: (keyof EventMap)[], options?: FromNodeEmitterOptions): Subscription {
+    return fromNodeEmitter(this, source, eventNames, options);
+  }
+
+  /**
+   * Передает события EventTarget (DOM) в эмиттер, пока у эмиттера есть их слушатели
+   * @param target EventTarget
+   * @param eventNames Названия передаваемых событий
+   * @param options Преобразование нативного события в данные, capture и passive
+   * @returns Подписка, удаление которой отключает передачу
+   */
+  public fromEventTarget(target: EventTargetLike, eventNames: (keyof EventMap & string)[], options?: FromEventTargetOptions): Subscription {
+    return fromEventTarget(this, target, eventNames, options);
+  }
+
+  /**
+   * Эмиттер в виде Node.js EventEmitter (addListener, removeListener, once, emit) для сторонних библиотек
+   */
+  public toNodeEmitter(): NodeEmitterAdapter {
+    return toNodeEmitter(this);
+  }
+
+  /**
+   * Эмиттер в виде EventTarget (addEventListener с once и signal, removeEventListener, dispatchEvent) для сторонних библиотек
+   */
+  public toEventTarget(): EventTargetAdapter {
+    return toEventTarget(this);
+  }
+
+  /**
+   * Подключает инспектор, который записывает вызовы emit, изменения состояний, регистрацию и удаление слушателей и вызовы triggerOff.
+   * Предупреждает, если количество слушателей одного события превышает options.maxListeners, и показывает, где они были зарегистрированы
+   * @param options Размер буфера записей и ограничение количества слушателей
+   */
+  public inspect(options?: InspectOptions): EventInspector {
+    return createEventInspector(hook => {
+      this._traceHooks = [...this._traceHooks, hook];
+      return () => {
+        this._traceHooks = this._traceHooks.filter(m => m !== hook);
+      };
+    }, options);
+  }
+
+  /**
+   * Загружает состояния из хранилища (restore) и записывает их в хранилище после каждого emitStateSync/emitStateAsync с задержкой
+   * @param adapter Хранилище снимков (MemoryStateAdapter, FileStateAdapter или собственное)
+   * @param options Задержка записи, версия схемы и миграции
+   */
+  public persist(adapter: StatePersistenceAdapter, options?: PersistStatesOptions): StatePersistence {
+    return persistStates(this, adapter, options);
   }
 
   /**
@@ -86,19 +749,10 @@ export class EventEmitter<EventMap extends EmitterMapBaseType = EmitterMapBaseTy
    * @param stateName Название этапа
    */
   public waitEvent<EventName extends keyof EventMap>(eventName: EventName): Promise<EventMap[EventName]>;
+  public waitEvent<Pattern extends string>(pattern: EventPattern<EventMap, Pattern>): Promise<EventPatternData<EventMap, Pattern>>;
   public waitEvent<StateName extends keyof StateMap>(stateName: StateName): Promise<StateMap[StateName]>;
-  public waitEvent<EventName extends keyof EventMap>(eventName: EventName): Promise<any> {
-    return new Promise<any>((resolve, reject) => {
-      this.on(eventName, (data, eventHash) => {
-        try {
-          resolve(data);
-        } catch (err) {
-          reject(err);
-        } finally {
-          this.off(eventHash);
-        }
-      });
-    });
+  public waitEvent(eventName: any): Promise<any> {
+    return this.waitFor(eventName);
   }
 
   /**
@@ -111,14 +765,103 @@ export class EventEmitter<EventMap extends EmitterMapBaseType = EmitterMapBaseTy
   public waitEventTimeout<EventName extends keyof EventMap>(eventName: EventName, timeout?: number, rejectReturn?: () => any): Promise<EventMap[EventName]>;
   public waitEventTimeout<StateName extends keyof StateMap>(stateName: StateName, timeout?: number, rejectReturn?: () => any): Promise<StateMap[StateName]>;
   public waitEventTimeout<EventName extends keyof EventMap>(eventName: EventName, timeout?: number, rejectReturn?: () => any): Promise<any> {
-    const eventPromise = this.waitEvent(eventName);
-    const timeoutPromise = new Promise<void>((resolve, reject) =>
-      setTimeout(() => {
-        if (rejectReturn) reject(rejectReturn());
-        else resolve();
-      }, timeout || 0),
-    );
-    return Promise.race([eventPromise, timeoutPromise]);
+    return this.waitFor(eventName, { timeout: timeout || 0 }).catch(err => {
+      if (!(err instanceof WaitTimeoutError)) throw err;
+      if (rejectReturn) throw rejectReturn();
+      return undefined;
+    });
+  }
+
+  /**
+   * Возвращает Promise в ожидании срабатывания события, данные которого проходят filter.
+   * Если событие является состоянием и его текущее значение проходит filter, то Promise выполняется сразу.
+   * При выполнении, таймауте и отмене слушатель и таймер удаляются
+   * @param eventName Название (или шаблон) события
+   * @param options Фильтр, время ожидания (WaitTimeoutError) и AbortSignal
+   */
+  public waitFor<EventName extends keyof EventMap>(
+    eventName: EventName,
+    options?: WaitForOptions<EventMap[EventName], EventName>,
+  ): Promise<EventMap[EventName]>;
+  public waitFor<Pattern extends string>(
+    pattern: EventPattern<EventMap, Pattern>,
+    options?: WaitForOptions<EventPatternData<EventMap, Pattern>, EventPatternKeys<EventMap, Pattern>>,
+  ): Promise<EventPatternData<EventMap, Pattern>>;
+  public waitFor<StateName extends keyof StateMap>(
+    stateName: StateName,
+    options?: WaitForOptions<StateMap[StateName], StateName>,
+  ): Promise<StateMap[StateName]>;
+  public waitFor(eventName: any, options?: WaitForOptions<any, any>): Promise<any> {
+    return waitEvents(this, [eventName], false, options).then(results => results[0].data);
+  }
+
+  /**
+   * Возвращает Promise в ожидании первого срабатывания любого из событий
+   * @param eventNames Названия событий и состояний
+   * @param options Фильтр, время ожидания (WaitTimeoutError) и AbortSignal
+   * @returns Название сработавшего события и его данные
+   */
+  public waitAny<Names extends (keyof EventMap | keyof StateMap)[]>(
+    eventNames: [...Names],
+    options?: WaitForOptions,
+  ): Promise<WaitAnyResult<EventMap & StateMap, Names[number]>> {
+    return waitEvents(this, eventNames, false, options).then(results => results[0] as WaitAnyResult<EventMap & StateMap, Names[number]>);
+  }
+
+  /**
+   * Возвращает Promise в ожидании срабатывания всех событий (каждого хотя бы один раз)
+   * @param eventNames Названия событий и состояний
+   * @param options Фильтр, время ожидания (WaitTimeoutError) и AbortSignal
+   * @returns Данные первого срабатывания каждого события в порядке eventNames
+   */
+  public waitAll<Names extends (keyof EventMap | keyof StateMap)[]>(
+    eventNames: [...Names],
+    options?: WaitForOptions,
+  ): Promise<StateValues<EventMap & StateMap, Names>> {
+    return waitEvents(this, eventNames, true, options).then(results => results.map(m => m.data) as StateValues<EventMap & StateMap, Names>);
+  }
+
+  /**
+   * Регистрирует обработчик запроса. У каждого запроса может быть только один обработчик (RequestHandlerExistsError)
+   * @param requestName Название запроса
+   * @param handler Обработчик. Возвращаемое значение (или результат Promise) становится ответом на запрос
+   * @returns Идентификатор обработчика для offHandle
+   */
+  public handle<RequestName extends keyof RequestMap>(
+    requestName: RequestName,
+    handler: RequestHandler<RequestPayload<RequestMap, RequestName>, RequestResult<RequestMap, RequestName>, RequestName>,
+  ): string {
+    if (this._requestHandlers.has(requestName)) throw new RequestHandlerExistsError(requestName);
+
+    const eventHash = `request_${guid.guid()}`;
+    this._requestHandlers.set(requestName, { eventHash, handler });
+    return eventHash;
+  }
+
+  public offHandle(eventHash: string): void {
+    this._requestHandlers.forEach((handlerObject, requestName) => {
+      if (handlerObject.eventHash === eventHash) this._requestHandlers.delete(requestName);
+    });
+  }
+
+  public hasHandler(requestName: keyof RequestMap): boolean {
+    return this._requestHandlers.has(requestName);
+  }
+
+  /**
+   * Отправляет запрос обработчику, зарегистрированному через handle.
+   * Promise отклоняется с ошибкой обработчика, с NoRequestHandlerError, если обработчика нет, и с RequestTimeoutError по истечении timeout
+   * @param requestName Название запроса
+   * @param payload Данные запроса
+   * @param options Время ожидания ответа и AbortSignal
+   */
+  public request<RequestName extends keyof RequestMap>(
+    requestName: RequestName,
+    payload: RequestPayload<RequestMap, RequestName>,
+    options?: RequestOptions,
+  ): Promise<RequestResult<RequestMap, RequestName>> {
+    const handlerObject = this._requestHandlers.get(requestName);
+    return sendRequest(handlerObject && handlerObject.handler, requestName, payload, options);
   }
 
   /**
@@ -126,57 +869,64 @@ export class EventEmitter<EventMap extends EmitterMapBaseType = EmitterMapBaseTy
    * @param eventHash Уникальный идентификатор события прослушивания
    */
   public off(eventHash: string): void {
-    const currentEvent = LINQ.from(this._events).first(m => m.eventHash === eventHash);
-    const eventName = currentEvent && (currentEvent.eventName as keyof EventMap);
-
-    this._offAction(eventHash);
-
-    try {
-      this._offEmit(eventHash);
-      if (this.getEvents(eventName).length <= 0) this._offEventEmit(eventName);
-      if (this._events.length <= 0) this._offAllEmit();
-    } catch (err) {
-      // IGNORE
-    }
+    const errors: ListenerError[] = [];
+    this._offListener(eventHash, errors);
+    this._throwOffErrors(errors);
   }
 
   /**
-   * Прекращает прослушивать конкретное событие
-   * @param eventName
+   * Прекращает прослушивать конкретное событие.
+   * Если передан шаблон, то прекращает прослушивать все события, названия которых совпадают с шаблоном
+   * @param eventName Название (или шаблон) события
    */
   public offEvent(eventName: keyof EventMap): void;
+  public offEvent<Pattern extends string>(pattern: EventPattern<EventMap, Pattern>): void;
   public offEvent(stateName: keyof StateMap): void;
   public offEvent(eventName: any): void {
-    const events = LINQ.from(this.getEvents(eventName)).map(m => m.eventHash);
+    const currentEvents = this._filterOff(this._eventStore.cover(eventName));
+    const events = currentEvents.map(m => m.eventHash);
+    const eventNames = isEventPattern(eventName) ? getEventNames(currentEvents) : [eventName];
 
-    this._offEventAction(eventName);
+    this._offEventAction(currentEvents);
 
-    try {
-      events.forEach(eventHash => this._offEmit(eventHash));
-      this._offEventEmit(eventName);
-      if (this._events.length <= 0) this._offAllEmit();
-    } catch (err) {
-      // IGNORE
-    }
+    const errors: ListenerError[] = [];
+    events.forEach(eventHash => this._offEmit(eventHash, errors));
+    eventNames
+      .filter(currentEventName => !this._eventStore.hasName(currentEventName))
+      .forEach(currentEventName => this._offEventEmit(currentEventName, errors));
+    if (this._eventStore.size <= 0) this._offAllEmit(errors);
+    this._throwOffErrors(errors);
   }
 
   /**
    * Прекратить прослушивание всех событий
    */
   public offAll(): void {
-    const events = LINQ.from(this._events).map(m => m.eventHash);
-    const eventNames = LINQ.from(this._events)
-      .map(m => m.eventName)
-      .distinct(m => m);
+    const currentEvents = this._filterOff(this._eventStore.values());
+    const isAll = currentEvents.length === this._eventStore.size;
+    const events = currentEvents.map(m => m.eventHash);
+    const eventNames = getEventNames(currentEvents).filter(
+      eventName => isAll || this._eventStore.getByName(eventName).every(m => currentEvents.indexOf(m) !== -1),
+    );
 
-    try {
-      events.forEach(eventHash => this._offEmit(eventHash));
-      eventNames.forEach(eventName => this._offEventEmit(eventName));
-      this._offAllEmit();
-    } catch (err) {
-      // IGNORE
-    }
-    this._offAllAction();
+    const errors: ListenerError[] = [];
+    events.forEach(eventHash => this._offEmit(eventHash, errors));
+    eventNames.forEach(eventName => this._offEventEmit(eventName, errors));
+    if (isAll) this._offAllEmit(errors);
+
+    if (isAll) this._offAllAction();
+    else this._offEventAction(currentEvents);
+    this._throwOffErrors(errors);
+  }
+
+  /**
+   * Прекратить прослушивание всех событий, зарегистрированных с options.owner (с вызовом triggerOff, triggerOffEvent и triggerOffAll)
+   * @param owner Владелец слушателей
+   */
+  public offOwner(owner: object): void {
+    this._ownerRegistry.getEventHashes(owner).forEach(eventHash => {
+      if (this._eventStore.has(eventHash)) this.off(eventHash);
+    });
   }
 
   public triggerOff(eventHash: string, callback: () => void): string {
@@ -185,7 +935,15 @@ export class EventEmitter<EventMap extends EmitterMapBaseType = EmitterMapBaseTy
     return this._onTriggerOff(offName, callback);
   }
 
-  public triggerOffEvent(eventName: keyof EventMap, callback: () => void): string {
+  /**
+   * Обратный вызов, когда перестают прослушивать событие.
+   * Если передан шаблон, то срабатывает для каждого события, название которого совпадает с шаблоном
+   * @param eventName Название (или шаблон) события
+   * @param callback Обратный вызов
+   */
+  public triggerOffEvent(eventName: keyof EventMap, callback: () => void): string;
+  public triggerOffEvent<Pattern extends string>(pattern: EventPattern<EventMap, Pattern>, callback: () => void): string;
+  public triggerOffEvent(eventName: any, callback: () => void): string {
     const offEventName = getOffEventName(eventName.toString());
 
     return this._onTriggerOff(offEventName, callback);
@@ -201,89 +959,784 @@ export class EventEmitter<EventMap extends EmitterMapBaseType = EmitterMapBaseTy
     this._offTriggerOff(eventHash);
   }
 
-  public emitSync<EventName extends keyof EventMap>(eventName: EventName, data: EventMap[EventName]): void;
-  public emitSync<StateName extends keyof StateMap>(stateName: StateName, data: StateMap[StateName]): void;
-  public emitSync(eventName: any, data?: any): void {
-    const events = this.getEvents(eventName);
-    events.map(event => event.callback(data, event.eventHash));
+  /**
+   * Синхронный вызов слушателей события в порядке приоритета
+   * @param eventName Название события
+   * @param data Данные события
+   * @returns Было ли отменено действие по умолчанию (`preventDefault`)
+   */
+  public emitSync<EventName extends keyof EventMap>(eventName: EventName, data: EventMap[EventName]): boolean;
+  public emitSync<StateName extends keyof StateMap>(stateName: StateName, data: StateMap[StateName]): boolean;
+  public emitSync(eventName: any, data?: any): boolean {
+    const context = createEmitContext('sync', eventName, data, false);
+    this._emitDetachedAction(context);
+
+    return context.defaultPrevented;
   }
 
-  public async emitAsync<EventName extends keyof EventMap>(eventName: EventName, data: EventMap[EventName]): Promise<void>;
-  public async emitAsync<StateName extends keyof StateMap>(stateName: StateName, data: StateMap[StateName]): Promise<void>;
-  public async emitAsync(eventName: string, data?: any): Promise<void> {
-    const events = this.getEvents(eventName);
-    await Promise.all(events.map(async event => event.callback(data, event.eventHash)));
+  /**
+   * Вызов слушателей события в порядке приоритета с ожиданием их выполнения
+   * @param eventName Название события
+   * @param data Данные события
+   * @returns Было ли отменено действие по умолчанию (`preventDefault`)
+   */
+  public async emitAsync<EventName extends keyof EventMap>(eventName: EventName, data: EventMap[EventName]): Promise<boolean>;
+  public async emitAsync<StateName extends keyof StateMap>(stateName: StateName, data: StateMap[StateName]): Promise<boolean>;
+  public async emitAsync(eventName: string, data?: any): Promise<boolean> {
+    const context = createEmitContext('async', eventName, data, false);
+    await composeMiddleware(this._middlewares, context, () => this._emitAction(context));
+
+    return context.defaultPrevented;
+  }
+
+  public emitStateSync<StateName extends keyof StateMap>(stateName: StateName, data: StateMap[StateName]): boolean {
+    const context = createEmitContext('sync', stateName, data, true);
+    this._emitDetachedAction(context);
+
+    return context.defaultPrevented;
   }
 
-  public emitStateSync<StateName extends keyof StateMap>(stateName: StateName, data: StateMap[StateName]) {
-    if (this.hasState(stateName)) this.removeState(stateName);
-    this._states.push({ stateName, data });
+  public async emitStateAsync<StateName extends keyof StateMap>(stateName: StateName, data: StateMap[StateName]): Promise<boolean> {
+    const context = createEmitContext('async', stateName, data, true);
+    await composeMiddleware(this._middlewares, context, () => this._emitAction(context));
 
-    this.emitSync(stateName, data);
+    return context.defaultPrevented;
   }
 
-  public async emitStateAsync<StateName extends keyof StateMap>(stateName: StateName, data: StateMap[StateName]): Promise<void> {
-    if (this.hasState(stateName)) this.removeState(stateName);
-    this._states.push({ stateName, data });
+  /**
+   * Вызов слушателей события параллельно с ожиданием их выполнения
+   * @param eventName Название события
+   * @param data Данные события
+   * @returns Результаты всех вызванных слушателей в порядке приоритета
+   */
+  public async emitCollect<EventName extends keyof EventMap, Result = any>(eventName: EventName, data: EventMap[EventName]): Promise<Result[]>;
+  public async emitCollect<StateName extends keyof StateMap, Result = any>(stateName: StateName, data: StateMap[StateName]): Promise<Result[]>;
+  public async emitCollect(eventName: any, data?: any): Promise<any[]> {
+    const context = createEmitContext('collect', eventName, data, false, []);
+    await composeMiddleware(this._middlewares, context, () => this._emitAction(context));
 
-    await this.emitAsync(stateName, data);
+    return context.result;
+  }
+
+  /**
+   * Последовательный вызов слушателей события. Каждый следующий слушатель вызывается после выполнения предыдущего
+   * @param eventName Название события
+   * @param data Данные события
+   * @returns Результаты всех вызванных слушателей в порядке вызова
+   */
+  public async emitSerial<EventName extends keyof EventMap, Result = any>(eventName: EventName, data: EventMap[EventName]): Promise<Result[]>;
+  public async emitSerial<StateName extends keyof StateMap, Result = any>(stateName: StateName, data: StateMap[StateName]): Promise<Result[]>;
+  public async emitSerial(eventName: any, data?: any): Promise<any[]> {
+    const context = createEmitContext('serial', eventName, data, false, []);
+    await composeMiddleware(this._middlewares, context, () => this._emitAction(context));
+
+    return context.result;
+  }
+
+  /**
+   * Последовательный вызов слушателей события, где каждый слушатель получает результат предыдущего.
+   * Если слушатель возвращает undefined, то следующий получает прежние данные
+   * @param eventName Название события
+   * @param data Данные для первого слушателя
+   * @returns Результат последнего слушателя
+   */
+  public async emitWaterfall<EventName extends keyof EventMap>(eventName: EventName, data: EventMap[EventName]): Promise<EventMap[EventName]>;
+  public async emitWaterfall<StateName extends keyof StateMap>(stateName: StateName, data: StateMap[StateName]): Promise<StateMap[StateName]>;
+  public async emitWaterfall(eventName: any, data?: any): Promise<any> {
+    const context = createEmitContext('waterfall', eventName, data, false, data);
+    await composeMiddleware(this._middlewares, context, () => this._emitAction(context));
+
+    return context.result;
+  }
+
+  /**
+   * Последовательный вызов слушателей события до первого результата, отличного от undefined
+   * @param eventName Название события
+   * @param data Данные события
+   * @returns Первый результат, отличный от undefined
+   */
+  public async emitFirst<EventName extends keyof EventMap, Result = any>(eventName: EventName, data: EventMap[EventName]): Promise<Result>;
+  public async emitFirst<StateName extends keyof StateMap, Result = any>(stateName: StateName, data: StateMap[StateName]): Promise<Result>;
+  public async emitFirst(eventName: any, data?: any): Promise<any> {
+    const context = createEmitContext('first', eventName, data, false);
+    await composeMiddleware(this._middlewares, context, () => this._emitAction(context));
+
+    return context.result;
+  }
+
+  /**
+   * Вызов слушателей события в этом эмиттере и во всех его дочерних эмиттерах. Событие не всплывает в родительские эмиттеры
+   * @param eventName Название события
+   * @param data Данные события
+   * @returns Было ли отменено действие по умолчанию хотя бы в одном эмиттере
+   */
+  public broadcastSync<EventName extends keyof EventMap>(eventName: EventName, data: EventMap[EventName]): boolean {
+    const contexts = this._getSubtree().map(emitter => {
+      const context = createEmitContext('sync', eventName, data, false);
+      context.bubbles = false;
+      emitter._emitDetachedAction(context);
+      return context;
+    });
+    return contexts.some(m => m.defaultPrevented);
+  }
+
+  /**
+   * Вызов слушателей события в этом эмиттере и во всех его дочерних эмиттерах с ожиданием их выполнения.
+   * Событие не всплывает в родительские эмиттеры
+   * @param eventName Название события
+   * @param data Данные события
+   * @returns Было ли отменено действие по умолчанию хотя бы в одном эмиттере
+   */
+  public async broadcastAsync<EventName extends keyof EventMap>(eventName: EventName, data: EventMap[EventName]): Promise<boolean> {
+    const contexts = await Promise.all(
+      this._getSubtree().map(async emitter => {
+        const context = createEmitContext('async', eventName, data, false);
+        context.bubbles = false;
+        await composeMiddleware(emitter._middlewares, context, () => emitter._emitAction(context));
+        return context;
+      }),
+    );
+    return contexts.some(m => m.defaultPrevented);
   }
 
   public removeState<StateName extends keyof StateMap>(stateName: StateName) {
     this._states = this._states.filter(m => m.stateName !== stateName);
+    this._stateHistories.delete(stateName);
+  }
+
+  /**
+   * Снимок собственных и унаследованных состояний эмиттера, который можно сериализовать в JSON (состояния с названием-символом не входят в снимок)
+   * @param options Версия схемы состояний
+   */
+  public snapshot(options?: StateSchemaOptions): StateSnapshot<StateMap> {
+    const states: Partial<StateMap> = {};
+    this._getStates()
+      .filter(m => typeof m.stateName !== 'symbol')
+      .forEach(m => (states[m.stateName as keyof StateMap] = m.data));
+    return { states, version: getSchemaVersion(options) };
+  }
+
+  /**
+   * Восстанавливает состояния из снимка через emitStateSync, поэтому текущие слушатели получают восстановленные значения.
+   * Снимок более старой версии схемы предварительно проходит через миграции
+   * @param snapshot Снимок
+   * @param options Текущая версия схемы и миграции
+   */
+  public restore(snapshot: StateSnapshot<StateMap>, options?: StateSchemaOptions): void {
+    const { states } = migrateStateSnapshot(snapshot, options);
+    Object.keys(states).forEach(stateName => this.emitStateSync(stateName, states[stateName]));
+  }
+
+  /**
+   * Вычисляемое состояние. Пересчитывается при каждом изменении любого из исходных состояний.
+   * Если selector возвращает Promise, то состояние изменяется только результатом последнего пересчета,
+   * а отклонение Promise передается в обработчики onError как ошибка вычисляемого состояния
+   * @param targetName Название вычисляемого состояния
+   * @param sourceNames Названия исходных состояний
+   * @param selector Вычисление значения по значениям исходных состояний
+   * @param options Сравнение значений
+   * @returns Идентификатор для offComputeState
+   */
+  public computeState<TargetName extends keyof StateMap, SourceNames extends (keyof StateMap)[]>(
+    targetName: TargetName,
+    sourceNames: [...SourceNames],
+    selector: (...values: StateValues<StateMap, SourceNames>) => StateMap[TargetName] | Promise<StateMap[TargetName]>,
+    options?: ComputeStateOptions<StateMap[TargetName]>,
+  ): string {
+    const computeHash = `compute_${guid.guid()}`;
+    const comparer = (options && options.comparer) || ((previous, next) => previous === next);
+    let computeVersion = 0;
+    let isReady = false;
+
+    const isEqual = (data: StateMap[TargetName]) => this.hasState(targetName) && comparer(this.getState(targetName), data);
+
+    const reportError = (error: any) => {
+      try {
+        this._catchError(error, computeHash, 'emit', targetName, []);
+      } catch (err) {
+        // IGNORE
+      }
+    };
+
+    const compute = () => {
+      const currentVersion = ++computeVersion;
+      const values = sourceNames.map(sourceName => this.getState(sourceName)) as StateValues<StateMap, SourceNames>;
+      const result = selector(...values);
+
+      if (!result || typeof (result as Promise<any>).then !== 'function') {
+        if (!isEqual(result as StateMap[TargetName])) this.emitStateSync(targetName, result as StateMap[TargetName]);
+        return undefined;
+      }
+      return Promise.resolve(result)
+        .then(
+          data => (currentVersion === computeVersion && !isEqual(data) ? this.emitStateAsync(targetName, data) : undefined),
+          err => reportError(err),
+        )
+        .catch(() => {
+          // IGNORE
+        });
+    };
+
+    const sourceHashes = sourceNames.map(sourceName => this.on(sourceName, () => (isReady ? compute() : undefined)));
+    this._computedStates.set(computeHash, sourceHashes);
+    isReady = true;
+
+    if (sourceNames.some(sourceName => this.hasState(sourceName))) compute();
+    return computeHash;
+  }
+
+  public offComputeState(computeHash: string): void {
+    const sourceHashes = this._computedStates.get(computeHash);
+    if (!sourceHashes) return;
+
+    this._computedStates.delete(computeHash);
+    sourceHashes.filter(eventHash => this.has(eventHash)).forEach(eventHash => this.off(eventHash));
+  }
+
+  /**
+   * emitAsync (или emitStateAsync) без ожидания результата. Ошибки middleware передаются в обработчики onError
+   */
+  public _emitDetached(eventName: EventNameType, data: any, state: boolean): void {
+    try {
+      this._emitDetachedAction(createEmitContext('async', eventName, data, state));
+    } catch (err) {
+      this._reportError(err, eventName);
+    }
+  }
+
+  /**
+   * Передает в обработчики onError ошибку, которая произошла не в слушателе (ListenerError с eventHash равным null)
+   */
+  public _reportError(error: any, eventName: EventNameType): void {
+    try {
+      this._catchError(error, null, 'emit', eventName, []);
+    } catch (err) {
+      // IGNORE
+    }
   }
 
   public _onTriggerOff(eventName: string, callback: SubscribeType<any>): string {
     const eventHash = `trigger_off_${guid.guid()}`;
-    this._offTriggers.push({ eventName, eventHash, callback });
+    if (isOffEventName(eventName)) this._offEventTriggerStore.add({ eventName: getOffEventPattern(eventName), eventHash, callback });
+    else this._offTriggerStore.add({ eventName, eventHash, callback });
 
     return eventHash;
   }
 
   public _offTriggerOff(eventHash: string): void {
-    this._offTriggers = this._offTriggers.filter(m => m.eventHash !== eventHash);
+    this._offTriggerStore.remove(eventHash);
+    this._offEventTriggerStore.remove(eventHash);
   }
 
-  private _offEmit(eventHash: string): void {
-    const offEventName = getOffName(eventHash);
-    const offEvents = this._offTriggers.filter(m => m.eventName === offEventName);
+  /**
+   * Собственные состояния вместе с унаследованными от родительских эмиттеров
+   */
+  protected _getStates(): StateObject<any>[] {
+    if (!this._parent) return this._states;
 
-    offEvents.map(offEvent => offEvent.callback(null, offEvent.eventHash));
+    const parentStates = this._parent._getStates().filter(parentState => !this._states.some(m => m.stateName === parentState.stateName));
+    return [...parentStates, ...this._states];
+  }
+
+  private _offListener(eventHash: string, errors: ListenerError[]): void {
+    const currentEvent = this._eventStore.get(eventHash);
+    if (!currentEvent || !this._subscribeAction('off', currentEvent)) return;
+
+    const eventName = currentEvent.eventName;
+    this._offAction(eventHash);
+    this._offEmit(eventHash, errors);
+    if (!this._eventStore.hasName(eventName)) this._offEventEmit(eventName, errors);
+    if (this._eventStore.size <= 0) this._offAllEmit(errors);
+  }
+
+  /**
+   * Удаляет слушателя, владелец которого удален сборщиком мусора.
+   * Вызывается вне emit, поэтому ошибки (в том числе triggerOff) только передаются в обработчики onError
+   */
+  private _offOwned(eventHash: string): void {
+    const eventObject = this._eventStore.get(eventHash);
+    if (!eventObject) return;
+
+    try {
+      this._offListener(eventHash, []);
+    } catch (err) {
+      this._catchError(err, eventHash, 'off', eventObject.eventName, []);
+    }
+  }
+
+  private _offEmit(eventHash: string, errors: ListenerError[]): void {
+    const offEvents = this._offTriggerStore.getByName(getOffName(eventHash));
+
+    offEvents.forEach(offEvent => this._invokeTrigger(offEvent, offEvent.eventName, errors));
+  }
+
+  private _getSubtree(): EventEmitter<any, any>[] {
+    return [this, ...this.getChildren().reduce((emitters, child) => [...emitters, ...child._getSubtree()], [])];
+  }
+
+  private _subscribe(
+    eventName: EventNameType,
+    callback: SubscribeType<any, any, any>,
+    options: SubscribeOptions,
+    getStateEvents: (eventObject: EventObject<any>) => StateObject<any>[],
+  ): string {
+    const eventHash = guid.guid();
+    // Владелец не должен попасть в замыкания слушателя, иначе он не будет удален сборщиком мусора
+    const { owner, ...listenerOptions } = options || ({} as SubscribeOptions);
+    const isOwned = !!owner;
+    const ownedCallback = isOwned ? this._ownerRegistry.bind(owner, eventHash, callback) : callback;
+    const listener = this._createListener(eventHash, eventName, ownedCallback, isOwned ? undefined : callback, listenerOptions);
+    let eventObject: EventObject<any> = null;
+    try {
+      eventObject = this._subscribeAction('on', listener.eventObject);
+    } finally {
+      if (!eventObject && isOwned) this._ownerRegistry.release(eventHash);
+    }
+    if (!eventObject) return eventHash;
+
+    this._onAction(eventObject, listenerOptions.prepend);
+    this._releaseOnOff(eventHash, listener.rateControlled, isOwned);
+
+    const errors: ListenerError[] = [];
+    getStateEvents(eventObject).forEach(stateEvent =>
+      this._invoke(eventObject, 'emit', stateEvent.data, stateEvent.stateName, createEventContext(stateEvent.stateName, stateEvent.version), errors),
+    );
+    this._throwErrors(errors);
+
+    return eventHash;
+  }
+
+  /**
+   * Оборачивает обратный вызов ограничением вызовов (times, until) и контролем частоты.
+   * Обертки замкнуты на этот эмиттер
+   * @param callback Обратный вызов (для слушателя с owner - уже привязанный к владельцу)
+   * @param listener Исходный обратный вызов (undefined для слушателя с owner)
+   */
+  private _createListener(
+    eventHash: string,
+    eventName: EventNameType,
+    callback: SubscribeType<any, any, any>,
+    listener: SubscribeType<any, any, any>,
+    options: SubscribeOptions,
+  ): { eventObject: EventObject<any, any>; rateControlled: RateControlledCallback } {
+    const priority = options.priority || 0;
+    const limitedCallback = hasListenerLimit(options)
+      ? createLimitedCallback(
+          callback,
+          options,
+          () => this._eventStore.has(eventHash),
+          () => this.off(eventHash),
+        )
+      : callback;
+    const listenerObject: EventObject<any, any> = { callback: limitedCallback, eventHash, eventName, exact: options.exact, priority };
+    const rateControlled = hasRateControl(options)
+      ? createRateControlledCallback(limitedCallback, options, args => this._invokeDeferred(listenerObject, args))
+      : null;
+    const wrappedCallback = rateControlled ? rateControlled.callback : limitedCallback;
+    const eventObject = wrappedCallback === listener ? listenerObject : { ...listenerObject, callback: wrappedCallback, listener, options };
+
+    return { eventObject, rateControlled };
+  }
+
+  private _copyListener(eventObject: EventObject<any, any>): EventObject<any, any> {
+    const listener = this._createListener(eventObject.eventHash, eventObject.eventName, eventObject.listener, eventObject.listener, eventObject.options);
+    this._releaseOnOff(eventObject.eventHash, listener.rateControlled, false);
+    return listener.eventObject;
+  }
+
+  private _releaseOnOff(eventHash: string, rateControlled: RateControlledCallback, isOwned: boolean): void {
+    if (!rateControlled && !isOwned) return;
+
+    const triggerOffHash = this.triggerOff(eventHash, () => {
+      this.offTriggerOff(triggerOffHash);
+      if (rateControlled) rateControlled.dispose();
+      if (isOwned) this._ownerRegistry.release(eventHash);
+    });
+  }
+
+  private _subscribeAction(action: SubscribeMiddlewareContext['action'], eventObject: EventObject<any>): EventObject<any> {
+    if (this._subscribeMiddlewares.length <= 0) return eventObject;
+
+    const context: SubscribeMiddlewareContext = { action, eventObject };
+    let result: EventObject<any> = null;
+    const chainResult = composeMiddleware(this._subscribeMiddlewares, context, () => {
+      result = context.eventObject;
+    });
+    if (!result && chainResult && typeof chainResult.then === 'function') throw new AsyncSubscribeMiddlewareError(action, eventObject.eventName);
+    return result;
+  }
+
+  private _filterOff(eventObjects: EventObject<any>[]): EventObject<any>[] {
+    return eventObjects.filter(eventObject => this._subscribeAction('off', eventObject));
+  }
+
+  /**
+   * Вызывает цепочку middleware без ожидания асинхронного middleware: его собственная ошибка передается в обработчики onError,
+   * а ошибки слушателей уже переданы в них при вызове
+   */
+  private _emitDetachedAction(context: EmitMiddlewareContext): void {
+    const emitErrors = new Set<any>();
+    const addEmitError = (err: any) => {
+      emitErrors.add(err);
+      throw err;
+    };
+    const result = composeMiddleware(this._middlewares, context, () => {
+      try {
+        const emitResult = this._emitAction(context);
+        return emitResult instanceof Promise ? emitResult.catch(addEmitError) : emitResult;
+      } catch (err) {
+        return addEmitError(err);
+      }
+    });
+    if (!result || typeof result.then !== 'function') return;
+
+    Promise.resolve(result).catch(err => {
+      if (!emitErrors.has(err)) this._reportError(err, context.eventName);
+    });
+  }
+
+  /**
+   * Список слушателей фиксируется в начале вызова: слушатели, добавленные во время emit, получат только следующие события,
+   * а слушатели, удаленные во время emit до своей очереди, не вызываются
+   */
+  private _emitAction(context: EmitMiddlewareContext): void | Promise<void> {
+    const stateObject = context.state ? this._stateAction(context.eventName, context.data) : null;
+    const version = stateObject && stateObject.version;
+    const eventContext = createEventContext(context.eventName, version);
+    if (this._traceHooks.length > 0) {
+      const listenerCount = this._eventStore.match(context.eventName).length;
+      this._trace({ data: context.data, eventName: context.eventName, listenerCount, mode: context.mode, type: 'emit' });
+    }
+
+    const result = this._dispatchAction(context, eventContext);
+    if (result instanceof Promise) return result.then(() => this._treeAction(context, eventContext, version));
+    return this._treeAction(context, eventContext, version);
+  }
+
+  private _dispatchAction(context: EmitMiddlewareContext, eventContext: EventContext): void | Promise<void> {
+    const events = this.getEvents(context.eventName as any);
+    const errors: ListenerError[] = [];
+
+    if (context.mode === 'sync') {
+      for (const event of events) {
+        if (eventContext.propagationStopped) break;
+        if (!this._eventStore.has(event.eventHash)) continue;
+        this._invoke(event, 'emit', context.data, context.eventName, eventContext, errors);
+      }
+      context.defaultPrevented = eventContext.defaultPrevented;
+      return this._throwErrors(errors);
+    }
+
+    if (context.mode === 'async' || context.mode === 'collect') {
+      const results: Promise<any>[] = [];
+      for (const event of events) {
+        if (eventContext.propagationStopped) break;
+        if (!this._eventStore.has(event.eventHash)) continue;
+        results.push((async () => this._invoke(event, 'emit', context.data, context.eventName, eventContext, errors))());
+      }
+      return Promise.all(results).then(data => {
+        context.defaultPrevented = eventContext.defaultPrevented;
+        if (context.mode === 'collect') context.result = data;
+        this._throwErrors(errors);
+      });
+    }
+
+    return this._emitSerialAction(context, events, eventContext, errors);
+  }
+
+  /**
+   * Передает изменение состояния дочерним эмиттерам, которые его наследуют, и всплывает событие в родительский эмиттер
+   */
+  private _treeAction(context: EmitMiddlewareContext, eventContext: EventContext, version: number): void | Promise<void> {
+    const isSync = context.mode === 'sync';
+    const results: Promise<void>[] = [];
+
+    if (context.state) {
+      this._children.forEach(child => {
+        const result = child._inheritAction(context.eventName, context.data, isSync, version);
+        if (result instanceof Promise) results.push(result);
+      });
+    }
+
+    if (context.bubbles && this._parent && !eventContext.propagationStopped) {
+      const parentContext = createEmitContext(isSync ? 'sync' : 'async', getChildEventName(this._namespace, context.eventName), context.data, false);
+      const parent = this._parent;
+      const result = isSync
+        ? parent._emitDetachedAction(parentContext)
+        : composeMiddleware(parent._middlewares, parentContext, () => parent._emitAction(parentContext));
+      const applyResult = () => {
+        context.defaultPrevented = context.defaultPrevented || parentContext.defaultPrevented;
+      };
+
+      if (isSync) applyResult();
+      else results.push(Promise.resolve(result).then(applyResult));
+    }
+
+    if (results.length > 0) return Promise.all(results).then(() => undefined);
+  }
+
+  /**
+   * Вызывает слушателей унаследованного состояния, если эмиттер не переопределяет его собственным
+   */
+  private _inheritAction(stateName: EventNameType, data: any, isSync: boolean, version: number): void | Promise<void> {
+    if (this._states.some(m => m.stateName === stateName)) return undefined;
+
+    const context = createEmitContext(isSync ? 'sync' : 'async', stateName, data, true);
+    const result = this._dispatchAction(context, createEventContext(stateName, version));
+    const childResults = Array.from(this._children.values()).map(child => child._inheritAction(stateName, data, isSync, version));
+
+    if (isSync) return undefined;
+    return Promise.all([result, ...childResults]).then(() => undefined);
+  }
+
+  private async _emitSerialAction(
+    context: EmitMiddlewareContext,
+    events: EventObject<any, any>[],
+    eventContext: EventContext,
+    errors: ListenerError[],
+  ): Promise<void> {
+    let data = context.data;
+    const results: any[] = [];
+
+    for (const event of events) {
+      if (eventContext.propagationStopped) break;
+      if (!this._eventStore.has(event.eventHash)) continue;
+
+      const result = await this._invoke(event, 'emit', data, context.eventName, eventContext, errors);
+      results.push(result);
+      if (context.mode === 'waterfall' && result !== undefined) data = result;
+      if (context.mode === 'first' && result !== undefined) {
+        context.result = result;
+        break;
+      }
+    }
+
+    context.defaultPrevented = eventContext.defaultPrevented;
+    if (context.mode === 'serial') context.result = results;
+    if (context.mode === 'waterfall') context.result = data;
+    this._throwErrors(errors);
+  }
+
+  /**
+   * Вызывает слушателя с учетом политики обработки ошибок.
+   * Ошибка (или отклоненный Promise) передается в обработчики onError и, кроме политики 'throw' для emit, добавляется в errors
+   */
+  private _invoke(
+    eventObject: EventObject<any, any>,
+    phase: ListenerErrorPhaseType,
+    data: any,
+    eventName: EventNameType,
+    eventContext: EventContext,
+    errors: ListenerError[],
+  ): any {
+    let result: any;
+    try {
+      result = eventObject.callback(data, eventObject.eventHash, eventName, eventContext);
+    } catch (err) {
+      return this._catchError(err, eventObject.eventHash, phase, eventName, errors);
+    }
+
+    if (result && typeof result.then === 'function')
+      return Promise.resolve(result).catch(err => this._catchError(err, eventObject.eventHash, phase, eventName, errors));
+    return result;
+  }
+
+  /**
+   * Вызывает слушателя вне emit (по таймеру debounce, throttle, batch). Ошибка передается в обработчики onError
+   */
+  private _invokeDeferred(eventObject: EventObject<any, any>, [data, , eventName, eventContext]: ListenerArgs): void {
+    try {
+      const result = this._invoke(eventObject, 'emit', data, eventName, eventContext, []);
+      if (result && typeof result.then === 'function') {
+        result.catch(() => {
+          // IGNORE
+        });
+      }
+    } catch (err) {
+      // IGNORE
+    }
+  }
+
+  private _invokeTrigger(offEvent: EventObject<any>, offEventName: EventNameType, errors: ListenerError[]): void {
+    this._trace({ eventHash: offEvent.eventHash, eventName: offEventName, listenerCount: this._eventStore.size, type: 'trigger' });
+    this._invoke(offEvent, 'off', null, offEventName, createEventContext(offEventName), errors);
+  }
+
+  private _catchError(error: any, eventHash: string, phase: ListenerErrorPhaseType, eventName: EventNameType, errors: ListenerError[]): any {
+    const listenerError = new ListenerError(error, eventName, eventHash, phase);
+    const errorHandlers = this._options.onError
+      ? [...this._errorHandlers, { eventName: 'error', eventHash: null, callback: this._options.onError }]
+      : this._errorHandlers;
+
+    errorHandlers.forEach(errorHandler => {
+      try {
+        (errorHandler.callback as ErrorHandlerType)(listenerError, errorHandler.eventHash);
+      } catch (err) {
+        // IGNORE
+      }
+    });
+
+    if (phase === 'emit' && this.errorPolicy === 'throw') throw error;
+    errors.push(listenerError);
+    return undefined;
+  }
+
+  private _throwErrors(errors: ListenerError[]): void {
+    if (errors.length <= 0 || this.errorPolicy === 'isolate') return;
+    if (this.errorPolicy === 'aggregate') throw new EmitterAggregateError([...errors]);
+    throw errors[0].error;
+  }
+
+  /**
+   * Ошибки triggerOff при удалении только передаются в onError, выбрасываются они лишь при errorPolicy 'aggregate'
+   */
+  private _throwOffErrors(errors: ListenerError[]): void {
+    if (errors.length > 0 && this.errorPolicy === 'aggregate') throw new EmitterAggregateError([...errors]);
+  }
+
+  private _trace(record: Omit<InspectorRecord, 'timestamp'>): void {
+    if (this._traceHooks.length <= 0) return;
+
+    const fullRecord: InspectorRecord = { ...record, timestamp: Date.now() };
+    this._traceHooks.forEach(hook => hook(fullRecord));
+  }
+
+  private _stateAction(stateName: any, data: any): StateObject<any> {
+    const stateObject: StateObject<any> = { data, stateName, timestamp: Date.now(), version: ++this._stateVersion };
+    const history = this._stateHistories.get(stateName) || [];
+
+    this._states = [...this._states.filter(m => m.stateName !== stateName), stateObject];
+    this._stateHistories.set(stateName, [...history, stateObject]);
+    this._pruneStateHistory(stateName);
+    this._trace({ data, eventName: stateName, listenerCount: this._eventStore.getByName(stateName).length, type: 'state', version: stateObject.version });
+    return stateObject;
+  }
+
+  /**
+   * Удаляет из истории состояния значения сверх options.size и старше options.time, оставляя последнее значение.
+   * История унаследованного состояния берется из родительского эмиттера
+   */
+  private _pruneStateHistory(stateName: EventNameType): StateObject<any>[] {
+    const history = this._stateHistories.get(stateName);
+    if (!history) return this._parent ? this._parent._pruneStateHistory(stateName) : [];
+
+    const options = this._stateHistoryOptions.get(stateName) || this._options.stateHistory || {};
+    const size = options.size >= 1 ? options.size : 1;
+    const minTimestamp = options.time >= 0 ? Date.now() - options.time : -Infinity;
+    const newHistory = history.slice(-size).filter((m, index, items) => index === items.length - 1 || m.timestamp >= minTimestamp);
+
+    this._stateHistories.set(stateName, newHistory);
+    return [...newHistory];
+  }
+
+  private _onAction(eventObject: EventObject<any>, prepend?: boolean): void {
+    this._eventStore.add(eventObject, prepend);
+    this._traceListener('on', eventObject);
   }
 
   private _offAction(eventHash: string): void {
-    this._events = this._events.filter(m => m.eventHash !== eventHash);
+    const eventObject = this._eventStore.remove(eventHash);
+    if (eventObject) this._traceListener('off', eventObject);
+  }
+
+  private _traceListener(type: 'on' | 'off', eventObject: EventObject<any>): void {
+    if (this._traceHooks.length <= 0) return;
+
+    const { eventName, eventHash } = eventObject;
+    this._trace({ eventHash, eventName, listenerCount: this._eventStore.getByName(eventName).length, type });
   }
 
-  private _offEventEmit(eventName: any): void {
-    const offEventName = getOffEventName(eventName);
-    const offEvents = this._offTriggers.filter(m => m.eventName === offEventName);
+  private _offEventEmit(eventName: any, errors: ListenerError[]): void {
+    const offEvents = this._offEventTriggerStore.match(String(eventName));
 
-    offEvents.map(offEvent => offEvent.callback(null, offEvent.eventHash));
+    offEvents.forEach(offEvent => this._invokeTrigger(offEvent, getOffEventName(offEvent.eventName as string), errors));
   }
 
-  private _offEventAction(eventName: any): void {
-    this._events = this._events.filter(m => m.eventName !== eventName);
+  private _offEventAction(eventObjects: EventObject<any>[]): void {
+    eventObjects.forEach(eventObject => this._offAction(eventObject.eventHash));
   }
 
-  private _offAllEmit(): void {
-    const offEventName = getOffAllName();
-    const offEvents = this._offTriggers.filter(m => m.eventName === offEventName);
+  private _offAllEmit(errors: ListenerError[]): void {
+    const offEvents = this._offTriggerStore.getByName(getOffAllName());
 
-    offEvents.map(offEvent => offEvent.callback(null, offEvent.eventHash));
+    offEvents.forEach(offEvent => this._invokeTrigger(offEvent, offEvent.eventName, errors));
   }
 
   private _offAllAction(): void {
-    this._events = [];
+    const eventObjects = this._traceHooks.length > 0 ? this._eventStore.values() : [];
+    this._eventStore.clear();
+    eventObjects.forEach(eventObject => this._traceListener('off', eventObject));
   }
 }
 
+function getEventNames(eventObjects: EventObject<any>[]): EventNameType[] {
+  return Array.from(new Set(eventObjects.map(m => m.eventName)));
+}
+
+function createEventContext<Name extends EventNameType>(eventName: Name, version?: number): EventContext<Name> {
+  const context: EventContext<Name> = {
+    defaultPrevented: false,
+    eventName,
+    preventDefault: () => {
+      context.defaultPrevented = true;
+    },
+    propagationStopped: false,
+    stopPropagation: () => {
+      context.propagationStopped = true;
+    },
+    version,
+  };
+  return context;
+}
+
+function hasListenerLimit(options: SubscribeOptions): boolean {
+  return !!options && (options.times > 0 || typeof options.until === 'function');
+}
+
+/**
+ * Слушатель удаляется до своего последнего вызова, поэтому повторный emit того же события из обратного вызова его не вызывает
+ */
+function createLimitedCallback(
+  callback: SubscribeType<any, any, any>,
+  options: SubscribeOptions,
+  isActive: () => boolean,
+  remove: () => void,
+): SubscribeType<any, any, any> {
+  let count = 0;
+  return (data, eventHash, eventName, context) => {
+    if (!isActive()) return undefined;
+    if (options.until && options.until(data, eventName)) return remove();
+
+    count++;
+    if (count >= options.times) remove();
+    return callback(data, eventHash, eventName, context);
+  };
+}
+
+function createEmitContext(mode: EmitMode, eventName: EventNameType, data: any, state: boolean, result?: any): EmitMiddlewareContext {
+  return { bubbles: true, data, defaultPrevented: false, eventName, mode, result, state };
+}
+
+function getChildEventName(namespace: string, eventName: EventNameType) {
+  return `${namespace}${EVENT_NAME_DELIMITER}${String(eventName)}`;
+}
+
 function getOffName(eventHash: string) {
   return `trigger_off_${eventHash}`;
 }
 
+const OFF_EVENT_PREFIX = 'trigger_off_event_';
+
 function getOffEventName(eventName: string) {
-  return `trigger_off_event_${eventName}`;
+  return `${OFF_EVENT_PREFIX}${eventName}`;
+}
+
+function isOffEventName(offEventName: EventNameType) {
+  return typeof offEventName === 'string' && offEventName.startsWith(OFF_EVENT_PREFIX);
+}
+
+function getOffEventPattern(offEventName: EventNameType) {
+  return (offEventName as string).slice(OFF_EVENT_PREFIX.length);
 }
 
 function getOffAllName() {
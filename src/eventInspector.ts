@@ -0,0 +1,169 @@
+import { EventNameType } from './eventEmitter';
+import { EmitMode } from './middleware';
+
+declare const process: { emitWarning?: (warning: Error) => void };
+
+/**
+ * Тип записи инспектора:
+ * 'emit' - вызов emit, 'state' - изменение состояния, 'on' - регистрация слушателя, 'off' - удаление слушателя,
+ * 'trigger' - вызов обратного вызова triggerOff, triggerOffEvent или triggerOffAll
+ */
+export type InspectorRecordType = 'emit' | 'state' | 'on' | 'off' | 'trigger';
+
+export interface InspectorRecord {
+  type: InspectorRecordType;
+  /**
+   * Название события. Для 'trigger' - название обратного вызова (trigger_off_...)
+   */
+  eventName: EventNameType;
+  eventHash?: string;
+  data?: any;
+  mode?: EmitMode;
+  /**
+   * Версия состояния для 'state'
+   */
+  version?: number;
+  timestamp: number;
+  /**
+   * Для 'emit' - количество слушателей, получивших событие,
+   * для 'on', 'off' и 'state' - количество слушателей, зарегистрированных под этим названием после действия,
+   * для 'trigger' - количество оставшихся слушателей эмиттера
+   */
+  listenerCount: number;
+}
+
+export type InspectorHook = (record: InspectorRecord) => void;
+
+export interface InspectOptions {
+  /**
+   * Сколько последних записей хранить (defaults 100)
+   */
+  size?: number;
+  /**
+   * Количество слушателей одного события, после которого выводится предупреждение об утечке. 0 - без ограничения (defaults 10)
+   */
+  maxListeners?: number;
+  /**
+   * Обработчик предупреждения об утечке (defaults process.emitWarning, если он есть, иначе console.warn)
+   */
+  onWarning?: (warning: MaxListenersExceededWarning) => void;
+}
+
+export interface EventInspector {
+  /**
+   * Последние записи от старых к новым
+   */
+  readonly records: InspectorRecord[];
+  /**
+   * Подписка на новые записи. Возвращает функцию отписки
+   */
+  subscribe(callback: InspectorHook): () => void;
+  clear(): void;
+  /**
+   * Отключает инспектор от эмиттера
+   */
+  stop(): void;
+}
+
+export class MaxListenersExceededWarning extends Error {
+  public eventName: EventNameType;
+  public count: number;
+  /**
+   * Стеки вызовов, в которых были зарегистрированы слушатели события (для слушателей, зарегистрированных после подключения инспектора)
+   */
+  public stacks: string[];
+
+  constructor(eventName: EventNameType, count: number, maxListeners: number, stacks: string[]) {
+    super(
+      `Possible EventEmitter memory leak detected. ${count} "${String(eventName)}" listeners added, the limit is ${maxListeners}.\n` +
+        stacks.map((stack, index) => `Listener ${index + 1} registered at:\n${stack}`).join('\n'),
+    );
+    this.name = 'MaxListenersExceededWarning';
+    this.eventName = eventName;
+    this.count = count;
+    this.stacks = stacks;
+  }
+}
+
+/**
+ * Создает инспектор, который получает записи через hook и подключается к эмиттеру через attach
+ * @param attach Подключает hook к эмиттеру и возвращает функцию отключения
+ * @param options Размер буфера записей и ограничение количества слушателей
+ */
+export function createEventInspector(attach: (hook: InspectorHook) => () => void, options?: InspectOptions): EventInspector {
+  const size = options && options.size >= 0 ? options.size : 100;
+  const maxListeners = options && options.maxListeners >= 0 ? options.maxListeners : 10;
+  const onWarning = (options && options.onWarning) || emitWarning;
+
+  const records: InspectorRecord[] = [];
+  let subscribers: InspectorHook[] = [];
+  const stacks = new Map<EventNameType, Map<string, string>>();
+  const warnedEventNames = new Set<EventNameType>();
+
+  const checkListeners = (record: InspectorRecord) => {
+    const eventStacks = stacks.get(record.eventName) || new Map<string, string>();
+    if (record.type === 'on') eventStacks.set(record.eventHash, getStack());
+    else eventStacks.delete(record.eventHash);
+
+    if (eventStacks.size > 0) stacks.set(record.eventName, eventStacks);
+    else stacks.delete(record.eventName);
+
+    if (record.listenerCount <= maxListeners) {
+      warnedEventNames.delete(record.eventName);
+      return;
+    }
+    if (record.type !== 'on' || warnedEventNames.has(record.eventName)) return;
+
+    warnedEventNames.add(record.eventName);
+    onWarning(new MaxListenersExceededWarning(record.eventName, record.listenerCount, maxListeners, Array.from(eventStacks.values())));
+  };
+
+  const hook: InspectorHook = record => {
+    if (maxListeners > 0 && (record.type === 'on' || record.type === 'off')) checkListeners(record);
+
+    records.push(record);
+    if (records.length > size) records.splice(0, records.length - size);
+    subscribers.forEach(subscriber => {
+      try {
+        subscriber(record);
+      } catch (err) {
+        // IGNORE
+      }
+    });
+  };
+
+  const detach = attach(hook);
+  return {
+    get records() {
+      return [...records];
+    },
+    clear: () => {
+      records.splice(0);
+    },
+    stop: () => {
+      detach();
+      subscribers = [];
+      stacks.clear();
+    },
+    subscribe: callback => {
+      subscribers = [...subscribers, callback];
+      return () => {
+        subscribers = subscribers.filter(m => m !== callback);
+      };
+    },
+  };
+}
+
+function getStack() {
+  const stack = new Error().stack || '';
+  return stack
+    .split('\n')
+    .slice(1)
+    .filter(line => !/eventInspector|eventEmitter/.test(line))
+    .join('\n');
+}
+
+function emitWarning(warning: MaxListenersExceededWarning) {
+  if (typeof process !== 'undefined' && process && typeof process.emitWarning === 'function') process.emitWarning(warning);
+  else console.warn(warning);
+}
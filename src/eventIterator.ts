@@ -0,0 +1,108 @@
+import { EventEmitter, EventNameType } from './eventEmitter';
+
+export type IterateOverflowType = 'drop-oldest' | 'drop-newest' | 'error';
+
+export interface IterateOptions {
+  /**
+   * Максимальное количество событий в буфере, которые еще не были прочитаны (defaults Infinity)
+   */
+  highWaterMark?: number;
+  /**
+   * Поведение при переполнении буфера (defaults 'drop-oldest'):
+   * 'drop-oldest' - удалить самое старое событие из буфера,
+   * 'drop-newest' - не добавлять новое событие в буфер,
+   * 'error' - завершить перебор с ошибкой EventIteratorOverflowError
+   */
+  overflow?: IterateOverflowType;
+}
+
+export class EventIteratorOverflowError extends Error {
+  public eventName: EventNameType;
+
+  constructor(eventName: EventNameType, highWaterMark: number) {
+    super(`Event iterator buffer for "${String(eventName)}" overflowed the high-water mark of ${highWaterMark}`);
+    this.name = 'EventIteratorOverflowError';
+    this.eventName = eventName;
+  }
+}
+
+interface IteratorPull<Data> {
+  resolve: (result: IteratorResult<Data>) => void;
+  reject: (err: any) => void;
+}
+
+/**
+ * Создает асинхронный итератор по срабатываниям события.
+ * Подписка удаляется через off, когда перебор завершается (break/return/throw) или когда слушателя удаляют снаружи
+ * @param emitter Источник событий
+ * @param eventName Название (или шаблон) события
+ * @param options Настройки буфера
+ */
+export function createEventIterator<Data>(emitter: EventEmitter<any, any>, eventName: EventNameType, options?: IterateOptions): AsyncIterableIterator<Data> {
+  const highWaterMark = options && options.highWaterMark >= 0 ? options.highWaterMark : Infinity;
+  const overflow: IterateOverflowType = (options && options.overflow) || 'drop-oldest';
+
+  const buffer: Data[] = [];
+  const pulls: IteratorPull<Data>[] = [];
+  let error: any = null;
+  let isDone = false;
+  let eventHash: string = null;
+  let triggerOffHash: string = null;
+
+  const finish = () => {
+    if (isDone) return;
+    isDone = true;
+
+    if (triggerOffHash) emitter.offTriggerOff(triggerOffHash);
+    if (eventHash && emitter.has(eventHash)) emitter.off(eventHash);
+    if (error && pulls.length > 0) {
+      pulls.shift().reject(error);
+      error = null;
+    }
+    pulls.splice(0).forEach(pull => pull.resolve({ done: true, value: undefined }));
+  };
+
+  const push = (data: Data) => {
+    if (isDone) return;
+    if (pulls.length > 0) return pulls.shift().resolve({ done: false, value: data });
+
+    if (buffer.length >= highWaterMark) {
+      if (overflow === 'drop-newest') return;
+      if (overflow === 'error') {
+        error = new EventIteratorOverflowError(eventName, highWaterMark);
+        return finish();
+      }
+      buffer.shift();
+    }
+    if (buffer.length < highWaterMark) buffer.push(data);
+  };
+
+  eventHash = emitter.on(eventName as any, (data: Data) => push(data));
+  if (isDone) emitter.off(eventHash);
+  else triggerOffHash = emitter.triggerOff(eventHash, finish);
+
+  const iterator: AsyncIterableIterator<Data> = {
+    next: () => {
+      if (buffer.length > 0) return Promise.resolve({ done: false, value: buffer.shift() });
+      if (error) {
+        const currentError = error;
+        error = null;
+        return Promise.reject(currentError);
+      }
+      if (isDone) return Promise.resolve({ done: true, value: undefined });
+      return new Promise<IteratorResult<Data>>((resolve, reject) => pulls.push({ resolve, reject }));
+    },
+    return: () => {
+      buffer.splice(0);
+      finish();
+      return Promise.resolve({ done: true, value: undefined });
+    },
+    throw: (err: any) => {
+      buffer.splice(0);
+      finish();
+      return Promise.reject(err);
+    },
+    [Symbol.asyncIterator]: () => iterator,
+  };
+  return iterator;
+}
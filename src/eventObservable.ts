@@ -0,0 +1,127 @@
+import { EventEmitter, EventNameType } from './eventEmitter';
+
+declare global {
+  interface SymbolConstructor {
+    readonly observable: symbol;
+  }
+}
+
+export interface Observer<Data> {
+  next: (value: Data) => void;
+  error: (err: any) => void;
+  complete: () => void;
+}
+
+export interface Unsubscribable {
+  unsubscribe(): void;
+}
+
+export interface ObservableSubscription extends Unsubscribable {
+  readonly closed: boolean;
+}
+
+/**
+ * Минимальный контракт Observable (TC39, RxJS)
+ */
+export interface Subscribable<Data> {
+  subscribe(observer?: Partial<Observer<Data>>): Unsubscribable;
+}
+
+export interface EventObservable<Data> extends Subscribable<Data> {
+  subscribe(next?: (value: Data) => void, error?: (err: any) => void, complete?: () => void): ObservableSubscription;
+  subscribe(observer?: Partial<Observer<Data>>): ObservableSubscription;
+  /**
+   * Interop с RxJS (`from`) и другими библиотеками. В окружении без Symbol.observable ключ - строка '@@observable'
+   */
+  [Symbol.observable](): EventObservable<Data>;
+}
+
+export interface FromObservableOptions {
+  /**
+   * Вызывать emitStateAsync вместо emitAsync
+   */
+  state?: boolean;
+}
+
+/**
+ * Symbol.observable, если он определен в окружении, иначе строка '@@observable' (как в RxJS)
+ */
+export const observableSymbol: string | symbol = (typeof Symbol === 'function' && (Symbol as any).observable) || '@@observable';
+
+/**
+ * Создает Observable, подписка на который соответствует on/off.
+ * Если слушателя удаляют снаружи (off, offEvent, offAll), то Observable завершается (complete)
+ * @param emitter Источник событий
+ * @param eventName Название (или шаблон) события
+ */
+export function createEventObservable<Data>(emitter: EventEmitter<any, any>, eventName: EventNameType): EventObservable<Data> {
+  const observable: EventObservable<Data> = {
+    [observableSymbol as typeof Symbol.observable]: () => observable,
+    subscribe: (observerOrNext?: Partial<Observer<Data>> | ((value: Data) => void), error?: (err: any) => void, complete?: () => void) => {
+      const observer: Partial<Observer<Data>> = typeof observerOrNext === 'function' ? { complete, error, next: observerOrNext } : observerOrNext || {};
+      let closed = false;
+      let triggerOffHash: string = null;
+
+      const eventHash = emitter.on(eventName as any, (data: Data) => {
+        if (!closed && observer.next) observer.next(data);
+      });
+      triggerOffHash = emitter.triggerOff(eventHash, () => {
+        if (closed) return;
+        closed = true;
+        emitter.offTriggerOff(triggerOffHash);
+        if (observer.complete) observer.complete();
+      });
+
+      return {
+        get closed() {
+          return closed;
+        },
+        unsubscribe: () => {
+          if (closed) return;
+          closed = true;
+          emitter.offTriggerOff(triggerOffHash);
+          if (emitter.has(eventHash)) emitter.off(eventHash);
+        },
+      };
+    },
+  };
+  return observable;
+}
+
+/**
+ * Передает значения Observable в emitAsync (или emitStateAsync).
+ * Ошибка Observable и ошибки middleware передаются в обработчики onError эмиттера, после ошибки или завершения подписка удаляется
+ * @param emitter Получатель событий
+ * @param eventName Название события
+ * @param source Observable (TC39, RxJS) или объект с методом Symbol.observable
+ * @param options Настройки передачи
+ */
+export function pipeObservable<Data>(
+  emitter: EventEmitter<any, any>,
+  eventName: EventNameType,
+  source: Subscribable<Data>,
+  options?: FromObservableOptions,
+): Unsubscribable {
+  const observable: Subscribable<Data> = typeof source[observableSymbol] === 'function' ? source[observableSymbol]() : source;
+  const isState = !!(options && options.state);
+  let subscription: Unsubscribable = null;
+  let isStopped = false;
+
+  const stop = () => {
+    isStopped = true;
+    if (subscription) subscription.unsubscribe();
+  };
+
+  subscription = observable.subscribe({
+    complete: stop,
+    error: err => {
+      emitter._reportError(err, eventName);
+      stop();
+    },
+    next: data => {
+      if (!isStopped) emitter._emitDetached(eventName, data, isState);
+    },
+  });
+  if (isStopped) subscription.unsubscribe();
+  return subscription;
+}
@@ -0,0 +1,97 @@
+import { EventNameType } from './eventEmitter';
+
+/**
+ * Разделитель сегментов в названии события (например, `user.created`)
+ */
+export const EVENT_NAME_DELIMITER = '.';
+
+/**
+ * Сегмент шаблона, совпадающий ровно с одним сегментом названия
+ */
+export const EVENT_PATTERN_SINGLE = '*';
+
+/**
+ * Сегмент шаблона, совпадающий с любым количеством сегментов названия (в том числе с нулем)
+ */
+export const EVENT_PATTERN_MULTI = '**';
+
+type SplitEventName<Name extends string> = Name extends `${infer Head}${typeof EVENT_NAME_DELIMITER}${infer Tail}` ? [Head, ...SplitEventName<Tail>] : [Name];
+
+type MatchSegments<Pattern extends string[], Name extends string[]> = Pattern extends [typeof EVENT_PATTERN_MULTI, ...infer PatternTail]
+  ? PatternTail extends string[]
+    ? MatchSegments<PatternTail, Name> extends true
+      ? true
+      : Name extends [string, ...infer NameTail]
+      ? NameTail extends string[]
+        ? MatchSegments<Pattern, NameTail>
+        : false
+      : false
+    : false
+  : Pattern extends [infer PatternHead, ...infer PatternTail]
+  ? Name extends [infer NameHead, ...infer NameTail]
+    ? PatternHead extends typeof EVENT_PATTERN_SINGLE | NameHead
+      ? PatternTail extends string[]
+        ? NameTail extends string[]
+          ? MatchSegments<PatternTail, NameTail>
+          : false
+        : false
+      : false
+    : false
+  : Name extends []
+  ? true
+  : false;
+
+/**
+ * Ключи карты событий, которые совпадают с шаблоном
+ */
+export type EventPatternKeys<Map, Pattern extends string> = {
+  [Name in keyof Map]: Name extends string ? (MatchSegments<SplitEventName<Pattern>, SplitEventName<Name>> extends true ? Name : never) : never;
+}[keyof Map];
+
+/**
+ * Объединение типов данных всех событий карты, которые совпадают с шаблоном
+ */
+export type EventPatternData<Map, Pattern extends string> = string extends keyof Map ? any : Map[EventPatternKeys<Map, Pattern>];
+
+/**
+ * Шаблон, который совпадает хотя бы с одним ключом карты событий
+ */
+export type EventPattern<Map, Pattern extends string> = Pattern & ([EventPatternKeys<Map, Pattern>] extends [never] ? never : unknown);
+
+/**
+ * Является ли название события шаблоном
+ * @param eventName Название события
+ */
+export function isEventPattern(eventName: EventNameType): eventName is string {
+  return typeof eventName === 'string' && eventName.indexOf(EVENT_PATTERN_SINGLE) !== -1;
+}
+
+/**
+ * Проверяет, совпадает ли название события с шаблоном.
+ * Если шаблон не содержит `*`, то сравнение строгое
+ * @param pattern Шаблон (или точное название) события
+ * @param eventName Конкретное название события
+ */
+export function matchEventName(pattern: EventNameType, eventName: EventNameType): boolean {
+  if (pattern === eventName) return true;
+  if (!isEventPattern(pattern) || typeof eventName !== 'string') return false;
+
+  return matchSegments(pattern.split(EVENT_NAME_DELIMITER), 0, eventName.split(EVENT_NAME_DELIMITER), 0);
+}
+
+function matchSegments(pattern: string[], patternIndex: number, name: string[], nameIndex: number): boolean {
+  if (patternIndex >= pattern.length) return nameIndex >= name.length;
+
+  const segment = pattern[patternIndex];
+  if (segment === EVENT_PATTERN_MULTI) {
+    for (let index = nameIndex; index <= name.length; index++) {
+      if (matchSegments(pattern, patternIndex + 1, name, index)) return true;
+    }
+    return false;
+  }
+
+  if (nameIndex >= name.length) return false;
+  if (segment !== EVENT_PATTERN_SINGLE && segment !== name[nameIndex]) return false;
+
+  return matchSegments(pattern, patternIndex + 1, name, nameIndex + 1);
+}
@@ -0,0 +1,99 @@
+import { getAbortReason } from './errors';
+import { EventNameType } from './eventEmitter';
+
+/**
+ * Данные запроса из карты запросов вида `{ [requestName]: { request: Payload; response: Result } }`
+ */
+export type RequestPayload<RequestMap, Name extends keyof RequestMap> = RequestMap[Name] extends { request: infer Payload } ? Payload : any;
+
+/**
+ * Результат запроса из карты запросов вида `{ [requestName]: { request: Payload; response: Result } }`
+ */
+export type RequestResult<RequestMap, Name extends keyof RequestMap> = RequestMap[Name] extends { response: infer Result } ? Result : any;
+
+export type RequestHandler<Payload = any, Result = any, Name extends EventNameType = EventNameType> = (
+  payload: Payload,
+  requestName: Name,
+) => Result | Promise<Result>;
+
+export interface RequestOptions {
+  /**
+   * Время ожидания ответа (мс). По истечении Promise отклоняется с RequestTimeoutError (defaults Infinity)
+   */
+  timeout?: number;
+  /**
+   * При отмене Promise отклоняется с signal.reason
+   */
+  signal?: AbortSignal;
+}
+
+export class NoRequestHandlerError extends Error {
+  public requestName: EventNameType;
+
+  constructor(requestName: EventNameType) {
+    super(`No handler registered for request "${String(requestName)}"`);
+    this.name = 'NoRequestHandlerError';
+    this.requestName = requestName;
+  }
+}
+
+export class RequestHandlerExistsError extends Error {
+  public requestName: EventNameType;
+
+  constructor(requestName: EventNameType) {
+    super(`Handler for request "${String(requestName)}" is already registered`);
+    this.name = 'RequestHandlerExistsError';
+    this.requestName = requestName;
+  }
+}
+
+export class RequestTimeoutError extends Error {
+  public requestName: EventNameType;
+
+  constructor(requestName: EventNameType, timeout: number) {
+    super(`Request "${String(requestName)}" timed out after ${timeout}ms`);
+    this.name = 'TimeoutError';
+    this.requestName = requestName;
+  }
+}
+
+/**
+ * Вызывает обработчик запроса. Ошибка обработчика (исключение или reject) возвращается через reject без обертки.
+ * При таймауте или отмене ответ обработчика игнорируется
+ * @param handler Обработчик запроса или undefined, если обработчик не зарегистрирован (NoRequestHandlerError)
+ * @param requestName Название запроса
+ * @param payload Данные запроса
+ * @param options Время ожидания и отмена
+ */
+export function sendRequest(handler: RequestHandler, requestName: EventNameType, payload: any, options?: RequestOptions): Promise<any> {
+  const timeout = options && options.timeout;
+  const signal = options && options.signal;
+
+  return new Promise((resolve, reject) => {
+    if (!handler) return reject(new NoRequestHandlerError(requestName));
+    if (signal && signal.aborted) return reject(getAbortReason(signal));
+
+    let timer: ReturnType<typeof setTimeout> = null;
+    let isDone = false;
+
+    const finish = (err: any, result?: any) => {
+      if (isDone) return;
+      isDone = true;
+
+      if (timer) clearTimeout(timer);
+      if (signal) signal.removeEventListener('abort', onAbort);
+
+      if (err) reject(err);
+      else resolve(result);
+    };
+    const onAbort = () => finish(getAbortReason(signal));
+
+    if (signal) signal.addEventListener('abort', onAbort);
+    if (timeout >= 0 && timeout !== Infinity) timer = setTimeout(() => finish(new RequestTimeoutError(requestName, timeout)), timeout);
+
+    new Promise(resolveHandler => resolveHandler(handler(payload, requestName))).then(
+      result => finish(null, result),
+      err => finish(err || new Error(`Request "${String(requestName)}" failed`)),
+    );
+  });
+}
@@ -0,0 +1,179 @@
+import { EventNameType, EventObject } from './eventEmitter';
+import { isEventPattern, matchEventName } from './eventPattern';
+
+interface EventRecord {
+  eventObject: EventObject<any, any>;
+  order: number;
+}
+
+/**
+ * Контракт хранилища слушателей эмиттера
+ */
+export interface EventStoreLike {
+  readonly size: number;
+  add(eventObject: EventObject<any, any>, prepend?: boolean): void;
+  remove(eventHash: string): EventObject<any, any>;
+  clear(): void;
+  get(eventHash: string): EventObject<any, any>;
+  has(eventHash: string): boolean;
+  hasName(eventName: EventNameType): boolean;
+  getNames(): EventNameType[];
+  getByName(eventName: EventNameType): EventObject<any, any>[];
+  match(eventName: EventNameType): EventObject<any, any>[];
+  cover(pattern: EventNameType): EventObject<any, any>[];
+  hasCover(pattern: EventNameType): boolean;
+  some(predicate: (eventObject: EventObject<any, any>) => boolean): boolean;
+  values(): EventObject<any, any>[];
+}
+
+/**
+ * Хранилище слушателей с индексами по eventHash и eventName.
+ * Слушатели возвращаются в порядке вызова: по убыванию приоритета, затем в порядке добавления (prepend - в обратном порядке перед остальными)
+ */
+export class EventStore implements EventStoreLike {
+  private _byHash = new Map<string, EventRecord>();
+  private _byName = new Map<EventNameType, EventRecord[]>();
+  private _patterns = new Set<string>();
+  private _appendOrder = 0;
+  private _prependOrder = 0;
+
+  public get size() {
+    return this._byHash.size;
+  }
+
+  public add(eventObject: EventObject<any, any>, prepend?: boolean): void {
+    const record: EventRecord = { eventObject, order: prepend ? --this._prependOrder : ++this._appendOrder };
+    const records = this._byName.get(eventObject.eventName) || [];
+    const index = findInsertIndex(records, record);
+
+    if (index === records.length) records.push(record);
+    else records.splice(index, 0, record);
+
+    this._byHash.set(eventObject.eventHash, record);
+    this._byName.set(eventObject.eventName, records);
+    if (isEventPattern(eventObject.eventName)) this._patterns.add(eventObject.eventName);
+  }
+
+  public remove(eventHash: string): EventObject<any, any> {
+    const record = this._byHash.get(eventHash);
+    if (!record) return undefined;
+
+    const eventName = record.eventObject.eventName;
+    const records = this._byName.get(eventName);
+    records.splice(records.indexOf(record), 1);
+
+    this._byHash.delete(eventHash);
+    if (records.length <= 0) {
+      this._byName.delete(eventName);
+      if (isEventPattern(eventName)) this._patterns.delete(eventName);
+    }
+    return record.eventObject;
+  }
+
+  public clear(): void {
+    this._byHash.clear();
+    this._byName.clear();
+    this._patterns.clear();
+  }
+
+  public get(eventHash: string): EventObject<any, any> {
+    const record = this._byHash.get(eventHash);
+    return record && record.eventObject;
+  }
+
+  public has(eventHash: string): boolean {
+    return this._byHash.has(eventHash);
+  }
+
+  /**
+   * Есть ли слушатели, зарегистрированные именно под этим названием
+   */
+  public hasName(eventName: EventNameType): boolean {
+    return this._byName.has(eventName);
+  }
+
+  /**
+   * Названия, под которыми зарегистрированы слушатели
+   */
+  public getNames(): EventNameType[] {
+    return Array.from(this._byName.keys());
+  }
+
+  /**
+   * Слушатели, зарегистрированные именно под этим названием
+   */
+  public getByName(eventName: EventNameType): EventObject<any, any>[] {
+    return (this._byName.get(eventName) || []).map(m => m.eventObject);
+  }
+
+  /**
+   * Слушатели, которые получат событие с этим названием: зарегистрированные под этим названием и под совпадающими шаблонами
+   * (кроме слушателей с точным названием)
+   */
+  public match(eventName: EventNameType): EventObject<any, any>[] {
+    const records = [...(this._byName.get(eventName) || [])];
+    let isMerged = false;
+
+    this._patterns.forEach(pattern => {
+      if (pattern === eventName || !matchEventName(pattern, eventName)) return;
+      const patternRecords = this._byName.get(pattern).filter(m => !m.eventObject.exact);
+      records.push(...patternRecords);
+      isMerged = isMerged || patternRecords.length > 0;
+    });
+
+    if (isMerged) records.sort(compareRecords);
+    return records.map(m => m.eventObject);
+  }
+
+  /**
+   * Слушатели, названия которых совпадают с шаблоном (или равны названию, если это не шаблон)
+   */
+  public cover(pattern: EventNameType): EventObject<any, any>[] {
+    if (!isEventPattern(pattern)) return this.getByName(pattern);
+
+    const records: EventRecord[] = [];
+    this._byName.forEach((nameRecords, eventName) => {
+      if (matchEventName(pattern, eventName)) records.push(...nameRecords);
+    });
+    return records.sort(compareRecords).map(m => m.eventObject);
+  }
+
+  public hasCover(pattern: EventNameType): boolean {
+    if (!isEventPattern(pattern)) return this.hasName(pattern);
+    return Array.from(this._byName.keys()).some(eventName => matchEventName(pattern, eventName));
+  }
+
+  public some(predicate: (eventObject: EventObject<any, any>) => boolean): boolean {
+    return Array.from(this._byHash.values()).some(m => predicate(m.eventObject));
+  }
+
+  /**
+   * Все слушатели в порядке вызова
+   */
+  public values(): EventObject<any, any>[] {
+    return Array.from(this._byHash.values())
+      .sort(compareRecords)
+      .map(m => m.eventObject);
+  }
+}
+
+function compareRecords(a: EventRecord, b: EventRecord) {
+  return (b.eventObject.priority || 0) - (a.eventObject.priority || 0) || a.order - b.order;
+}
+
+/**
+ * Позиция вставки записи в отсортированный список (после записей, которые вызываются раньше нее).
+ * Обычно запись добавляется в конец, поэтому сначала сравнивается последняя запись, затем - бинарный поиск
+ */
+function findInsertIndex(records: EventRecord[], record: EventRecord) {
+  if (records.length <= 0 || compareRecords(records[records.length - 1], record) <= 0) return records.length;
+
+  let low = 0;
+  let high = records.length - 1;
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if (compareRecords(records[middle], record) <= 0) low = middle + 1;
+    else high = middle;
+  }
+  return low;
+}
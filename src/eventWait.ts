@@ -0,0 +1,100 @@
+import { getAbortReason } from './errors';
+import { EventEmitter, EventNameType } from './eventEmitter';
+
+export interface WaitForOptions<Data = any, Name extends EventNameType = EventNameType> {
+  /**
+   * Ожидать только срабатывания, для которых filter возвращает true
+   */
+  filter?: (data: Data, eventName: Name) => boolean;
+  /**
+   * Время ожидания (мс). По истечении Promise отклоняется с WaitTimeoutError (defaults Infinity)
+   */
+  timeout?: number;
+  /**
+   * При отмене Promise отклоняется с signal.reason
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Результат waitAny: название сработавшего события и его данные
+ */
+export type WaitAnyResult<Map, Name extends keyof Map> = { [K in Name]: { eventName: K; data: Map[K] } }[Name];
+
+export interface WaitResult {
+  eventName: EventNameType;
+  data: any;
+}
+
+export class WaitTimeoutError extends Error {
+  public eventNames: EventNameType[];
+
+  constructor(eventNames: EventNameType[], timeout: number) {
+    super(`Waiting for ${eventNames.map(eventName => `"${String(eventName)}"`).join(', ')} timed out after ${timeout}ms`);
+    this.name = 'TimeoutError';
+    this.eventNames = eventNames;
+  }
+}
+
+/**
+ * Ожидает срабатывания одного (isAll = false) или всех (isAll = true) событий.
+ * При любом завершении (срабатывание, таймаут, отмена, ошибка filter) удаляет слушателей, таймер и обработчик отмены
+ * @param emitter Источник событий
+ * @param eventNames Названия (или шаблоны) событий
+ * @param isAll Ожидать все события
+ * @param options Фильтр, время ожидания и отмена
+ * @returns Результаты в порядке eventNames (для isAll = false - один результат)
+ */
+export function waitEvents(emitter: EventEmitter<any, any>, eventNames: EventNameType[], isAll: boolean, options?: WaitForOptions): Promise<WaitResult[]> {
+  const filter = options && options.filter;
+  const timeout = options && options.timeout;
+  const signal = options && options.signal;
+
+  return new Promise<WaitResult[]>((resolve, reject) => {
+    const results: WaitResult[] = new Array(eventNames.length).fill(null);
+    const eventHashes: string[] = [];
+    let timer: ReturnType<typeof setTimeout> = null;
+    let isDone = false;
+
+    const finish = (err: any, value?: WaitResult[]) => {
+      if (isDone) return;
+      isDone = true;
+
+      if (timer) clearTimeout(timer);
+      if (signal) signal.removeEventListener('abort', onAbort);
+      eventHashes.filter(eventHash => emitter.has(eventHash)).forEach(eventHash => emitter.off(eventHash));
+
+      if (err) reject(err);
+      else resolve(value);
+    };
+    const onAbort = () => finish(getAbortReason(signal));
+
+    if (signal && signal.aborted) return onAbort();
+    if (signal) signal.addEventListener('abort', onAbort);
+
+    eventNames.forEach((eventName, index) => {
+      if (isDone) return;
+
+      const eventHash = emitter.on(eventName as any, (data: any, currentEventHash: string, currentEventName: EventNameType) => {
+        if (isDone || results[index]) return;
+
+        let error: any = null;
+        try {
+          if (filter && !filter(data, currentEventName)) return;
+        } catch (err) {
+          error = err;
+        }
+
+        if (emitter.has(currentEventHash)) emitter.off(currentEventHash);
+        if (error) return finish(error);
+
+        results[index] = { data, eventName: currentEventName };
+        if (!isAll) finish(null, [results[index]]);
+        else if (results.every(m => m)) finish(null, results);
+      });
+      eventHashes.push(eventHash);
+    });
+
+    if (!isDone && timeout >= 0 && timeout !== Infinity) timer = setTimeout(() => finish(new WaitTimeoutError(eventNames, timeout)), timeout);
+  });
+}
@@ -1,3 +1,18 @@
 export * from './eventEmitter';
+export * from './eventPattern';
+export * from './middleware';
+export * from './eventIterator';
+export * from './eventObservable';
+export * from './eventWait';
+export * from './eventRequest';
+export * from './eventInspector';
+export * from './rateControl';
+export * from './eventBridge';
+export * from './eventAdapters';
+export * from './statePersistence';
+export * from './errors';
 export * from './cacheEmitter';
+export * from './cacheWrap';
+export * from './subscription';
+export * from './ownerListeners';
 export { EventEmitter as default } from './eventEmitter';
@@ -0,0 +1,81 @@
+import { EventNameType, EventObject } from './eventEmitter';
+
+export type MiddlewareNext = () => any;
+
+export type Middleware<Context> = (context: Context, next: MiddlewareNext) => any;
+
+export type EmitMode = 'sync' | 'async' | 'collect' | 'serial' | 'waterfall' | 'first';
+
+/**
+ * Контекст вызова emit, который проходит через цепочку middleware.
+ * Middleware может изменить `eventName` и `data` перед вызовом `next`, а также `result` после него
+ */
+export interface EmitMiddlewareContext {
+  eventName: EventNameType;
+  data: any;
+  mode: EmitMode;
+  /**
+   * Является ли вызов изменением состояния (`emitStateSync`/`emitStateAsync`)
+   */
+  state: boolean;
+  /**
+   * Заполняется после вызова слушателей
+   */
+  defaultPrevented: boolean;
+  /**
+   * Передать событие родительскому эмиттеру (для дочерних эмиттеров, созданных через child)
+   */
+  bubbles: boolean;
+  /**
+   * Результат вызова слушателей для `emitCollect`, `emitSerial`, `emitWaterfall` и `emitFirst`.
+   * Заполняется после вызова слушателей
+   */
+  result?: any;
+}
+
+/**
+ * Контекст регистрации (`on`) или удаления (`off`, `offEvent`, `offAll`) слушателя
+ */
+export interface SubscribeMiddlewareContext {
+  action: 'on' | 'off';
+  eventObject: EventObject<any>;
+}
+
+export type EmitMiddleware = Middleware<EmitMiddlewareContext>;
+
+export type SubscribeMiddleware = Middleware<SubscribeMiddlewareContext>;
+
+/**
+ * Middleware регистрации или удаления слушателя вернуло Promise, не вызвав `next` синхронно.
+ * Регистрация и удаление слушателя синхронны, поэтому отложенный `next` не может их выполнить
+ */
+export class AsyncSubscribeMiddlewareError extends Error {
+  public action: SubscribeMiddlewareContext['action'];
+  public eventName: EventNameType;
+
+  constructor(action: SubscribeMiddlewareContext['action'], eventName: EventNameType) {
+    super(`Subscribe middleware must call next() synchronously ("${action}" of "${String(eventName)}")`);
+    this.name = 'AsyncSubscribeMiddlewareError';
+    this.action = action;
+    this.eventName = eventName;
+  }
+}
+
+/**
+ * Последовательно вызывает цепочку middleware в стиле Koa.
+ * Если middleware не вызывает `next`, то остальная цепочка и `last` не вызываются
+ * @param middlewares Цепочка middleware
+ * @param context Общий контекст цепочки
+ * @param last Действие после всей цепочки
+ */
+export function composeMiddleware<Context>(middlewares: Middleware<Context>[], context: Context, last: MiddlewareNext): any {
+  let lastIndex = -1;
+  const dispatch = (index: number): any => {
+    if (index <= lastIndex) throw new Error('next() called multiple times');
+    lastIndex = index;
+
+    if (index >= middlewares.length) return last();
+    return middlewares[index](context, () => dispatch(index + 1));
+  };
+  return dispatch(0);
+}
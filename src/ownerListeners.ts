@@ -0,0 +1,93 @@
+import { SubscribeType } from './eventEmitter';
+
+interface WeakRefLike<Target extends object> {
+  deref(): Target | undefined;
+}
+
+interface FinalizationRegistryLike<HeldValue> {
+  register(target: object, heldValue: HeldValue, unregisterToken?: object): void;
+  unregister(unregisterToken: object): void;
+}
+
+declare const WeakRef: new <Target extends object>(target: Target) => WeakRefLike<Target>;
+declare const FinalizationRegistry: new <HeldValue>(cleanup: (heldValue: HeldValue) => void) => FinalizationRegistryLike<HeldValue>;
+
+export interface OwnerRegistry {
+  /**
+   * Привязывает слушателя к владельцу. Возвращает обертку, которая хранит владельца через WeakRef,
+   * а сам обратный вызов доступен только через владельца (WeakMap)
+   */
+  bind(owner: object, eventHash: string, callback: SubscribeType<any, any, any>): SubscribeType<any, any, any>;
+  /**
+   * Удаляет привязку слушателя (после off, offEvent или offAll)
+   */
+  release(eventHash: string): void;
+  getEventHashes(owner: object): string[];
+}
+
+interface OwnerBinding {
+  ownerRef: WeakRefLike<object>;
+  token: object;
+}
+
+export function isWeakOwnerSupported(): boolean {
+  return typeof WeakRef !== 'undefined' && typeof FinalizationRegistry !== 'undefined';
+}
+
+/**
+ * Создает реестр слушателей, привязанных к владельцам.
+ * Когда владелец удаляется сборщиком мусора, слушатель удаляется через remove (FinalizationRegistry или при следующем срабатывании).
+ * Без WeakRef и FinalizationRegistry владелец и слушатель хранятся обычными ссылками, удаление возможно только через offOwner
+ * @param remove Удаление слушателя по идентификатору. Вызывается в том числе из FinalizationRegistry, поэтому не должно выбрасывать ошибки
+ */
+export function createOwnerRegistry(remove: (eventHash: string) => void): OwnerRegistry {
+  const isWeak = isWeakOwnerSupported();
+  const ownerCallbacks = new WeakMap<object, Map<string, SubscribeType<any, any, any>>>();
+  const bindings = new Map<string, OwnerBinding>();
+  const strongOwners = new Map<string, object>();
+  const finalization = isWeak ? new FinalizationRegistry<string>(eventHash => remove(eventHash)) : null;
+
+  const getOwner = (eventHash: string) => {
+    const binding = bindings.get(eventHash);
+    return binding ? binding.ownerRef.deref() : strongOwners.get(eventHash);
+  };
+
+  return {
+    bind: (owner, eventHash, callback) => {
+      const callbacks = ownerCallbacks.get(owner) || new Map<string, SubscribeType<any, any, any>>();
+      callbacks.set(eventHash, callback);
+      ownerCallbacks.set(owner, callbacks);
+      if (!isWeak) {
+        strongOwners.set(eventHash, owner);
+        return callback;
+      }
+
+      const binding: OwnerBinding = { ownerRef: new WeakRef(owner), token: {} };
+      bindings.set(eventHash, binding);
+      finalization.register(owner, eventHash, binding.token);
+
+      return (data, currentEventHash, eventName, context) => {
+        const currentOwner = binding.ownerRef.deref();
+        const currentCallbacks = currentOwner && ownerCallbacks.get(currentOwner);
+        const currentCallback = currentCallbacks && currentCallbacks.get(eventHash);
+        if (!currentCallback) return remove(eventHash);
+        return currentCallback(data, currentEventHash, eventName, context);
+      };
+    },
+    getEventHashes: owner => {
+      const callbacks = ownerCallbacks.get(owner);
+      return callbacks ? Array.from(callbacks.keys()) : [];
+    },
+    release: eventHash => {
+      const owner = getOwner(eventHash);
+      const callbacks = owner && ownerCallbacks.get(owner);
+      if (callbacks) callbacks.delete(eventHash);
+      if (callbacks && callbacks.size <= 0) ownerCallbacks.delete(owner);
+
+      const binding = bindings.get(eventHash);
+      if (binding) finalization.unregister(binding.token);
+      bindings.delete(eventHash);
+      strongOwners.delete(eventHash);
+    },
+  };
+}
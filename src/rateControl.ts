@@ -0,0 +1,164 @@
+import { EventContext, EventNameType } from './eventEmitter';
+
+export interface BatchOptions {
+  /**
+   * Вызвать слушателя, когда накопится столько данных
+   */
+  size?: number;
+  /**
+   * Вызвать слушателя через столько миллисекунд после первых данных пачки (defaults 0, если не указан size)
+   */
+  time?: number;
+}
+
+export interface RateControlOptions {
+  /**
+   * Вызвать слушателя с последними данными, когда события перестанут срабатывать в течение указанного времени (мс)
+   */
+  debounce?: number;
+  /**
+   * Вызывать слушателя не чаще одного раза за указанное время (мс): сразу и, если были новые данные, в конце интервала
+   */
+  throttle?: number;
+  /**
+   * Передавать слушателю массив данных, накопленных по количеству и/или времени
+   */
+  batch?: BatchOptions;
+  /**
+   * Пропускать данные, равные предыдущим (=== или переданное сравнение)
+   */
+  distinct?: boolean | ((previous: any, next: any) => boolean);
+}
+
+export type ListenerArgs = [any, string, EventNameType, EventContext];
+
+type ListenerStage = (args: ListenerArgs, isDeferred: boolean) => any;
+
+export interface RateControlledCallback {
+  callback: (...args: ListenerArgs) => any;
+  /**
+   * Отменяет отложенные вызовы и таймеры
+   */
+  dispose(): void;
+}
+
+export function hasRateControl(options: RateControlOptions): boolean {
+  return !!options && (options.debounce >= 0 || options.throttle >= 0 || !!options.batch || !!options.distinct);
+}
+
+/**
+ * Оборачивает слушателя в цепочку distinct -> batch -> throttle -> debounce.
+ * Вызовы внутри emit выполняются через callback, вызовы по таймеру - через callDeferred
+ * @param callback Слушатель
+ * @param options Ограничения частоты вызова
+ * @param callDeferred Вызов слушателя вне emit (по таймеру)
+ */
+export function createRateControlledCallback(
+  callback: (...args: ListenerArgs) => any,
+  options: RateControlOptions,
+  callDeferred: (args: ListenerArgs) => void,
+): RateControlledCallback {
+  const timers = new Set<ReturnType<typeof setTimeout>>();
+  const setTimer = (handler: () => void, timeout: number) => {
+    const timer = setTimeout(() => {
+      timers.delete(timer);
+      handler();
+    }, timeout);
+    timers.add(timer);
+    return timer;
+  };
+  const clearTimer = (timer: ReturnType<typeof setTimeout>) => {
+    clearTimeout(timer);
+    timers.delete(timer);
+  };
+
+  let stage: ListenerStage = (args, isDeferred) => (isDeferred ? callDeferred(args) : callback(...args));
+  if (options.debounce >= 0) stage = debounceStage(stage, options.debounce, setTimer, clearTimer);
+  if (options.throttle >= 0) stage = throttleStage(stage, options.throttle, setTimer);
+  if (options.batch) stage = batchStage(stage, options.batch, setTimer, clearTimer);
+  if (options.distinct) stage = distinctStage(stage, typeof options.distinct === 'function' ? options.distinct : (previous, next) => previous === next);
+
+  return {
+    callback: (...args: ListenerArgs) => stage(args, false),
+    dispose: () => {
+      timers.forEach(timer => clearTimeout(timer));
+      timers.clear();
+    },
+  };
+}
+
+type SetTimer = (handler: () => void, timeout: number) => ReturnType<typeof setTimeout>;
+type ClearTimer = (timer: ReturnType<typeof setTimeout>) => void;
+
+function debounceStage(next: ListenerStage, debounce: number, setTimer: SetTimer, clearTimer: ClearTimer): ListenerStage {
+  let timer: ReturnType<typeof setTimeout> = null;
+
+  return args => {
+    if (timer) clearTimer(timer);
+    timer = setTimer(() => {
+      timer = null;
+      next(args, true);
+    }, debounce);
+    return undefined;
+  };
+}
+
+function throttleStage(next: ListenerStage, throttle: number, setTimer: SetTimer): ListenerStage {
+  let lastTime = -Infinity;
+  let trailingArgs: ListenerArgs = null;
+  let timer: ReturnType<typeof setTimeout> = null;
+
+  return (args, isDeferred) => {
+    const remaining = lastTime + throttle - Date.now();
+    if (remaining <= 0 && !timer) {
+      lastTime = Date.now();
+      return next(args, isDeferred);
+    }
+
+    trailingArgs = args;
+    if (!timer) {
+      timer = setTimer(() => {
+        timer = null;
+        lastTime = Date.now();
+        next(trailingArgs, true);
+        trailingArgs = null;
+      }, Math.max(remaining, 0));
+    }
+    return undefined;
+  };
+}
+
+function batchStage(next: ListenerStage, batch: BatchOptions, setTimer: SetTimer, clearTimer: ClearTimer): ListenerStage {
+  const size = batch.size > 0 ? batch.size : Infinity;
+  const time = batch.time >= 0 ? batch.time : size === Infinity ? 0 : Infinity;
+  const items: ListenerArgs[] = [];
+  let timer: ReturnType<typeof setTimeout> = null;
+
+  const flush = (isDeferred: boolean) => {
+    if (timer) clearTimer(timer);
+    timer = null;
+
+    const batchItems = items.splice(0);
+    const [, eventHash, eventName, context] = batchItems[batchItems.length - 1];
+    return next([batchItems.map(m => m[0]), eventHash, eventName, context], isDeferred);
+  };
+
+  return (args, isDeferred) => {
+    items.push(args);
+    if (items.length >= size) return flush(isDeferred);
+    if (!timer && time !== Infinity) timer = setTimer(() => flush(true), time);
+    return undefined;
+  };
+}
+
+function distinctStage(next: ListenerStage, comparer: (previous: any, next: any) => boolean): ListenerStage {
+  let hasPrevious = false;
+  let previous: any;
+
+  return (args, isDeferred) => {
+    if (hasPrevious && comparer(previous, args[0])) return undefined;
+    hasPrevious = true;
+    previous = args[0];
+    return next(args, isDeferred);
+  };
+}
@@ -0,0 +1,219 @@
+import { EventEmitter } from './eventEmitter';
+import { EmitMiddleware } from './middleware';
+
+declare const require: (moduleName: string) => any;
+
+/**
+ * Сериализуемое представление состояний эмиттера
+ */
+export interface StateSnapshot<StateMap = any> {
+  /**
+   * Версия схемы состояний, с которой был сделан снимок
+   */
+  version: number;
+  states: Partial<StateMap>;
+}
+
+/**
+ * Миграции снимка по номеру версии схемы: функция с ключом N переводит состояния из версии N - 1 в версию N
+ */
+export type StateMigrations = { [version: number]: (states: { [stateName: string]: any }) => { [stateName: string]: any } };
+
+export interface StateSchemaOptions {
+  /**
+   * Текущая версия схемы состояний (defaults 1)
+   */
+  version?: number;
+  /**
+   * Миграции снимков более старых версий
+   */
+  migrations?: StateMigrations;
+}
+
+export interface StatePersistenceAdapter {
+  load(): StateSnapshot | undefined | Promise<StateSnapshot | undefined>;
+  save(snapshot: StateSnapshot): void | Promise<void>;
+}
+
+export interface PersistStatesOptions extends StateSchemaOptions {
+  /**
+   * Задержка (мс) записи после последнего изменения состояния (defaults 100)
+   */
+  debounce?: number;
+  /**
+   * Обработчик ошибок загрузки и ошибок записи, которая произошла по изменению состояния
+   */
+  onError?: (error: any) => void;
+}
+
+export interface StatePersistence {
+  /**
+   * Выполняется, когда сохраненные состояния загружены и восстановлены.
+   * При ошибке загрузки тоже выполняется (ошибка передается в options.onError), запись состояний продолжается
+   */
+  readonly ready: Promise<void>;
+  /**
+   * Записывает состояния сразу, не дожидаясь задержки
+   */
+  flush(): Promise<void>;
+  /**
+   * Прекращает запись состояний
+   */
+  stop(): void;
+}
+
+/**
+ * Минимальный контракт fs.promises
+ */
+export interface FileSystemLike {
+  readFile(filePath: string, encoding: 'utf8'): Promise<string>;
+  writeFile(filePath: string, data: string, encoding: 'utf8'): Promise<void>;
+}
+
+export class StateSnapshotVersionError extends Error {
+  public snapshotVersion: number;
+  public version: number;
+
+  constructor(snapshotVersion: number, version: number) {
+    super(`State snapshot version ${snapshotVersion} is newer than the schema version ${version}`);
+    this.name = 'StateSnapshotVersionError';
+    this.snapshotVersion = snapshotVersion;
+    this.version = version;
+  }
+}
+
+/**
+ * Хранит снимок в памяти в виде JSON
+ */
+export class MemoryStateAdapter implements StatePersistenceAdapter {
+  private _data: string = null;
+
+  public load(): StateSnapshot {
+    return this._data === null ? undefined : JSON.parse(this._data);
+  }
+
+  public save(snapshot: StateSnapshot): void {
+    this._data = JSON.stringify(snapshot);
+  }
+}
+
+/**
+ * Хранит снимок в JSON-файле. Если файла нет, то load возвращает undefined
+ */
+export class FileStateAdapter implements StatePersistenceAdapter {
+  private _filePath: string;
+  private _fileSystem: FileSystemLike;
+
+  constructor(filePath: string, fileSystem?: FileSystemLike) {
+    this._filePath = filePath;
+    this._fileSystem = fileSystem;
+  }
+
+  public async load(): Promise<StateSnapshot> {
+    try {
+      return JSON.parse(await this._getFileSystem().readFile(this._filePath, 'utf8'));
+    } catch (err) {
+      if (err && err.code === 'ENOENT') return undefined;
+      throw err;
+    }
+  }
+
+  public save(snapshot: StateSnapshot): Promise<void> {
+    return this._getFileSystem().writeFile(this._filePath, JSON.stringify(snapshot), 'utf8');
+  }
+
+  private _getFileSystem(): FileSystemLike {
+    if (!this._fileSystem) this._fileSystem = require('fs').promises;
+    return this._fileSystem;
+  }
+}
+
+/**
+ * Переводит состояния снимка в текущую версию схемы
+ * @param snapshot Снимок
+ * @param options Текущая версия схемы и миграции
+ */
+export function migrateStateSnapshot(snapshot: StateSnapshot, options?: StateSchemaOptions): StateSnapshot {
+  const version = getSchemaVersion(options);
+  const migrations = (options && options.migrations) || {};
+  const snapshotVersion = snapshot.version || 1;
+  if (snapshotVersion > version) throw new StateSnapshotVersionError(snapshotVersion, version);
+
+  let states = { ...snapshot.states };
+  for (let currentVersion = snapshotVersion + 1; currentVersion <= version; currentVersion++) {
+    if (migrations[currentVersion]) states = migrations[currentVersion](states);
+  }
+  return { states, version };
+}
+
+export function getSchemaVersion(options?: StateSchemaOptions) {
+  return (options && options.version) || 1;
+}
+
+/**
+ * Загружает состояния из хранилища в эмиттер и записывает их обратно при каждом изменении (с задержкой)
+ * @param emitter Эмиттер
+ * @param adapter Хранилище снимков
+ * @param options Задержка записи, версия схемы и миграции
+ */
+export function persistStates(emitter: EventEmitter<any, any>, adapter: StatePersistenceAdapter, options?: PersistStatesOptions): StatePersistence {
+  const debounce = options && options.debounce >= 0 ? options.debounce : 100;
+  let timer: ReturnType<typeof setTimeout> = null;
+  let isReady = false;
+  let isChanged = false;
+  let isStopped = false;
+
+  const flush = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    return Promise.resolve(adapter.save(emitter.snapshot(options)));
+  };
+
+  const reportError = (err: any) => {
+    if (options && options.onError) options.onError(err);
+  };
+
+  const schedule = () => {
+    if (isStopped) return;
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      flush().catch(reportError);
+    }, debounce);
+  };
+
+  const middleware: EmitMiddleware = (context, next) => {
+    const result = next();
+    if (!context.state) return result;
+
+    isChanged = true;
+    if (isReady) schedule();
+    return result;
+  };
+
+  emitter.use(middleware);
+  const ready = new Promise<StateSnapshot | undefined>(resolve => resolve(adapter.load()))
+    .then(snapshot => {
+      const isChangedBeforeLoad = isChanged;
+      if (snapshot && !isStopped) emitter.restore(snapshot, options);
+      return isChangedBeforeLoad;
+    })
+    .catch(err => {
+      reportError(err);
+      return isChanged;
+    })
+    .then(isChangedBeforeLoad => {
+      isReady = true;
+      if (isChangedBeforeLoad) schedule();
+    });
+
+  return {
+    flush,
+    ready,
+    stop: () => {
+      isStopped = true;
+      if (timer) clearTimeout(timer);
+      timer = null;
+      emitter.unuse(middleware);
+    },
+  };
+}
@@ -0,0 +1,136 @@
+import { CacheEmitter, CacheSubscribeCallbackType, CacheSubscribeOptions } from './cacheEmitter';
+
+declare global {
+  interface SymbolConstructor {
+    readonly dispose: unique symbol;
+    readonly asyncDispose: unique symbol;
+  }
+
+  interface Disposable {
+    [Symbol.dispose](): void;
+  }
+
+  interface AsyncDisposable {
+    [Symbol.asyncDispose](): PromiseLike<void>;
+  }
+}
+
+/**
+ * Symbol.dispose, если он определен в окружении, иначе Symbol.for('Symbol.dispose')
+ */
+export const disposeSymbol: typeof Symbol.dispose = (Symbol.dispose || Symbol.for('Symbol.dispose')) as typeof Symbol.dispose;
+
+/**
+ * Symbol.asyncDispose, если он определен в окружении, иначе Symbol.for('Symbol.asyncDispose')
+ */
+export const asyncDisposeSymbol: typeof Symbol.asyncDispose = (Symbol.asyncDispose || Symbol.for('Symbol.asyncDispose')) as typeof Symbol.asyncDispose;
+
+/**
+ * Подписка, которую можно удалить через unsubscribe или объявление using
+ */
+export interface Subscription extends Disposable, AsyncDisposable {
+  /**
+   * true, если подписка удалена (в том числе через off, offEvent или offAll)
+   */
+  readonly closed: boolean;
+  unsubscribe(): void;
+  [disposeSymbol](): void;
+  [asyncDisposeSymbol](): Promise<void>;
+}
+
+export type TeardownType = { unsubscribe(): void } | (() => void);
+
+/**
+ * Создает подписку
+ * @param unsubscribe Удаление подписки. Вызывается не более одного раза
+ * @param isClosed Проверка, удалена ли подписка снаружи
+ */
+export function createSubscription(unsubscribe: () => void, isClosed?: () => boolean): Subscription {
+  let closed = false;
+  const subscription: Subscription = {
+    get closed() {
+      return closed || (!!isClosed && isClosed());
+    },
+    unsubscribe: () => {
+      if (closed) return;
+      closed = true;
+      unsubscribe();
+    },
+    [disposeSymbol]: () => subscription.unsubscribe(),
+    [asyncDisposeSymbol]: () => Promise.resolve(subscription.unsubscribe()),
+  };
+  return subscription;
+}
+
+/**
+ * Набор подписок (в том числе разных эмиттеров), которые удаляются вместе
+ */
+export class SubscriptionScope implements Disposable, AsyncDisposable {
+  private _teardowns: TeardownType[] = [];
+  private _closed = false;
+
+  public get closed() {
+    return this._closed;
+  }
+
+  public get size() {
+    return this._teardowns.length;
+  }
+
+  /**
+   * Добавляет подписку (объект с unsubscribe или функцию удаления). Если набор уже удален, то подписка удаляется сразу
+   */
+  public add<Teardown extends TeardownType>(teardown: Teardown): Teardown {
+    if (this._closed) runTeardown(teardown);
+    else this._teardowns.push(teardown);
+    return teardown;
+  }
+
+  /**
+   * CacheEmitter.subscribe с удалением подписки вместе с набором
+   */
+  public subscribeCache<Result>(
+    cacheEmitter: CacheEmitter,
+    eventName: string,
+    realCallback: CacheSubscribeCallbackType<Result>,
+    cacheCallback: (data: Result) => void,
+    options?: CacheSubscribeOptions,
+  ): Subscription {
+    const eventHash = cacheEmitter.subscribe(eventName, realCallback, cacheCallback, options);
+    return this.add(createSubscription(() => cacheEmitter.unsubscribe(eventHash)));
+  }
+
+  /**
+   * Удаляет все подписки в обратном порядке. Ошибки удаления не прерывают остальные удаления, первая из них выбрасывается в конце
+   */
+  public dispose(): void {
+    if (this._closed) return;
+    this._closed = true;
+
+    const errors: any[] = [];
+    this._teardowns
+      .splice(0)
+      .reverse()
+      .forEach(teardown => {
+        try {
+          runTeardown(teardown);
+        } catch (err) {
+          errors.push(err);
+        }
+      });
+    if (errors.length > 0) throw errors[0];
+  }
+
+  public [disposeSymbol](): void {
+    this.dispose();
+  }
+
+  public async [asyncDisposeSymbol](): Promise<void> {
+    this.dispose();
+  }
+}
+
+function runTeardown(teardown: TeardownType) {
+  if (typeof teardown === 'function') teardown();
+  else teardown.unsubscribe();
+}